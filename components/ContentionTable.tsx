@@ -0,0 +1,57 @@
+import type { ContentionResult } from '@/lib/types';
+
+interface ContentionTableProps {
+  results: ContentionResult[];
+}
+
+const cellStyle = { padding: '0.5rem', color: '#495057', fontSize: '0.8rem' };
+const numericCellStyle = { ...cellStyle, fontFamily: 'monospace' };
+const headerStyle = { padding: '0.5rem', textAlign: 'left' as const, fontWeight: '600', color: '#495057', fontSize: '0.8rem' };
+
+export default function ContentionTable({ results }: ContentionTableProps) {
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+            <th style={headerStyle}>Veritabanı</th>
+            <th style={headerStyle}>Yöntem</th>
+            <th style={headerStyle}>Sıcak Anahtar</th>
+            <th style={headerStyle}>İşlem/sn</th>
+            <th style={headerStyle}>p50 / p99 (ms)</th>
+            <th style={headerStyle}>Yeniden Deneme</th>
+            <th style={headerStyle}>Hata</th>
+            <th style={headerStyle}>Sayaç Toplamı</th>
+            <th style={headerStyle}>Kayıp Güncelleme</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr key={result.database} style={{ borderBottom: '1px solid #e9ecef' }}>
+              <td style={{ ...cellStyle, fontWeight: '600', color: '#212529' }} title={result.error}>
+                {result.database}
+                {result.consistency && (
+                  <div style={{ fontSize: '0.7rem', color: '#6f42c1', fontFamily: 'monospace', fontWeight: 'normal' }}>{result.consistency}</div>
+                )}
+              </td>
+              <td style={numericCellStyle}>{result.strategy}</td>
+              <td style={numericCellStyle}>{result.hotKeys}</td>
+              <td style={numericCellStyle}>{result.opsPerSec.toLocaleString()}</td>
+              <td style={numericCellStyle}>{result.latency.p50} / {result.latency.p99}</td>
+              <td style={numericCellStyle}>{result.retries.toLocaleString()}</td>
+              <td style={{ ...numericCellStyle, color: result.errors > 0 || result.error ? '#dc3545' : '#495057' }}>
+                {result.error && result.increments === 0 ? result.error : result.errors.toLocaleString()}
+              </td>
+              <td style={numericCellStyle}>
+                {result.actualTotal.toLocaleString()} / {result.expectedTotal.toLocaleString()}
+              </td>
+              <td style={{ ...numericCellStyle, fontWeight: '600', color: result.lostUpdates !== 0 ? '#dc3545' : '#28a745' }}>
+                {result.lostUpdates.toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import type { RowCount } from '@/lib/types';
+
+interface DataResetPanelProps {
+  disabled?: boolean;
+}
+
+const buttonStyle = (enabled: boolean, color: string) => ({
+  padding: '0.25rem 0.75rem',
+  backgroundColor: 'transparent',
+  color: enabled ? color : '#adb5bd',
+  border: `1px solid ${enabled ? color : '#dee2e6'}`,
+  borderRadius: '6px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '0.8rem',
+});
+
+export default function DataResetPanel({ disabled }: DataResetPanelProps) {
+  const [counts, setCounts] = useState<RowCount[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const enabled = !disabled && !busy;
+
+  const request = async (method: 'GET' | 'POST') => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/reset', { method });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setCounts(data.counts);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = () => {
+    if (confirm('Tüm veritabanlarındaki test_data verileri silinecek. Devam edilsin mi?')) {
+      request('POST');
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '1rem',
+      padding: '0.75rem 1rem',
+      border: '1px solid #e9ecef',
+      borderRadius: '10px',
+      backgroundColor: '#fafbfc',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.75rem',
+      flexWrap: 'wrap',
+      fontSize: '0.8rem',
+      color: '#495057',
+    }}>
+      <strong style={{ fontSize: '0.9rem' }}>Veri</strong>
+      <button onClick={() => request('GET')} disabled={!enabled} style={buttonStyle(enabled, '#0d6efd')}>
+        Satır Sayıları
+      </button>
+      <button onClick={reset} disabled={!enabled} style={buttonStyle(enabled, '#dc3545')}>
+        {busy ? 'Çalışıyor...' : 'Verileri Sıfırla'}
+      </button>
+      {counts && counts.map((row) => (
+        <span key={row.database} title={row.error} style={{ fontFamily: 'monospace', color: row.error ? '#dc3545' : '#495057' }}>
+          {row.database}: {row.count !== null ? row.count.toLocaleString() : 'erişilemedi'}
+        </span>
+      ))}
+      {error && <span style={{ color: '#dc3545' }}>{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { InjectionMatrix, InjectionOutcome, InjectionVerdict } from '@/lib/types';
+
+interface InjectionMatrixTableProps {
+  matrix: InjectionMatrix;
+}
+
+const categoryLabels: { [key: string]: string } = {
+  tautology: 'Totoloji',
+  stacked: 'Ardışık sorgu',
+  comment: 'Yorumla kesme',
+  union: 'UNION',
+  operator: 'Operatör',
+  'type-confusion': 'Tip karışıklığı',
+  cql: 'CQL',
+};
+
+const verdictStyles: { [key in InjectionVerdict]: { label: string; color: string; background: string } } = {
+  exploited: { label: 'İstismar edildi', color: '#721c24', background: '#f8d7da' },
+  blocked: { label: 'Engellendi', color: '#155724', background: '#d4edda' },
+  errored: { label: 'Hata', color: '#856404', background: '#fff3cd' },
+};
+
+const cellStyle = { padding: '0.5rem', color: '#495057', fontSize: '0.8rem', verticalAlign: 'top' as const };
+const headerStyle = { padding: '0.5rem', textAlign: 'left' as const, fontWeight: '600', color: '#495057', fontSize: '0.8rem' };
+
+// What was measured, shown as the badge tooltip
+function describe(outcome: InjectionOutcome): string {
+  const details = [`${outcome.rowsReturned} satır döndü (beklenen ${outcome.expectedRows})`];
+  if (outcome.leakedRows > 0) details.push(`${outcome.leakedRows} satır sızdı`);
+  if (outcome.authBypassed) details.push('kimlik doğrulama atlandı');
+  if (outcome.tableDropped) details.push('tablo silindi');
+  if (outcome.rowsRemoved > 0 && !outcome.tableDropped) details.push(`${outcome.rowsRemoved} satır silindi`);
+  if (outcome.rowsAltered > 0) details.push(`${outcome.rowsAltered} satır değişti`);
+  if (outcome.rejected) details.push(`reddedildi: ${outcome.rejected}`);
+  if (outcome.error) details.push(`hata: ${outcome.error}`);
+  return details.join('\n');
+}
+
+function VerdictBadge({ title, outcome }: { title: string; outcome: InjectionOutcome }) {
+  const style = verdictStyles[outcome.verdict];
+  return (
+    <div
+      title={describe(outcome)}
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: '0.5rem',
+        marginBottom: '0.25rem',
+        padding: '0.2rem 0.4rem',
+        borderRadius: '4px',
+        backgroundColor: style.background,
+        color: style.color,
+        fontSize: '0.75rem',
+        cursor: 'help',
+      }}
+    >
+      <span>{title}</span>
+      <span style={{ fontWeight: '600' }}>{style.label}</span>
+    </div>
+  );
+}
+
+export default function InjectionMatrixTable({ matrix }: InjectionMatrixTableProps) {
+  const cell = (payloadId: string, database: string) =>
+    matrix.results.find((result) => result.payloadId === payloadId && result.database === database);
+
+  const exploitedBy = (mode: 'vulnerable' | 'safe') =>
+    matrix.results.filter((result) => result[mode]?.verdict === 'exploited').length;
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <p style={{ margin: '0 0 0.75rem', color: '#495057', fontSize: '0.85rem' }}>
+        {matrix.payloads.length} yük × {matrix.engines.length} motor: açık sorgu {exploitedBy('vulnerable')} kez,
+        güvenli sorgu {exploitedBy('safe')} kez istismar edildi. Ayrıntılar için sonuçların üzerine gelin.
+      </p>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+            <th style={headerStyle}>Kategori</th>
+            <th style={headerStyle}>Yük</th>
+            {matrix.engines.map((engine) => (
+              <th key={engine} style={headerStyle}>{engine}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.payloads.map((payload) => (
+            <tr key={payload.id} style={{ borderBottom: '1px solid #e9ecef' }}>
+              <td style={cellStyle}>{categoryLabels[payload.category] || payload.category}</td>
+              <td style={cellStyle}>
+                <div style={{ color: '#212529' }}>{payload.description}</div>
+                <code style={{ fontSize: '0.75rem', color: '#6c757d', wordBreak: 'break-all' }}>
+                  {payload.input.password !== undefined
+                    ? `${payload.input.username} / ${payload.input.password}`
+                    : payload.input.username}
+                </code>
+              </td>
+              {matrix.engines.map((engine) => {
+                const result = cell(payload.id, engine);
+                return (
+                  <td key={engine} style={{ ...cellStyle, minWidth: '170px' }}>
+                    {result?.vulnerable && result.safe ? (
+                      <>
+                        <VerdictBadge title="Açık" outcome={result.vulnerable} />
+                        <VerdictBadge title="Güvenli" outcome={result.safe} />
+                      </>
+                    ) : (
+                      <span style={{ color: '#dc3545' }} title={result?.error}>Çalıştırılamadı</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js';
-import type { TestResult } from '@/lib/types';
+import type { OperationType, TestResult } from '@/lib/types';
 
 ChartJS.register(
   CategoryScale,
@@ -21,38 +21,60 @@ ChartJS.register(
 
 interface PerformanceChartProps {
   results: TestResult[];
-  operation: 'write' | 'read' | 'update';
+  operation: OperationType;
+  metric?: 'timeTaken' | 'latency';
 }
 
-export default function PerformanceChart({ results, operation }: PerformanceChartProps) {
+const percentileKeys = [
+  { key: 'p50', label: 'p50', color: '54, 162, 235' },
+  { key: 'p95', label: 'p95', color: '75, 192, 192' },
+  { key: 'p99', label: 'p99', color: '255, 159, 64' },
+  { key: 'p999', label: 'p99.9', color: '255, 99, 132' },
+] as const;
+
+const engines = [
+  { name: 'Cassandra', color: '54, 162, 235' },
+  { name: 'MongoDB', color: '75, 192, 192' },
+  { name: 'CockroachDB', color: '255, 99, 132' },
+];
+
+export default function PerformanceChart({ results, operation, metric = 'timeTaken' }: PerformanceChartProps) {
   // Filter results for this operation
   const operationResults = results.filter((r) => r.operation === operation);
 
-  // Group by database
-  const cassandraResult = operationResults.find((r) => r.database === 'Cassandra');
-  const mongoResult = operationResults.find((r) => r.database === 'MongoDB');
-  const cockroachResult = operationResults.find((r) => r.database === 'CockroachDB');
+  // One bar per engine and consistency profile, so runs under different profiles sit side by side
+  const bars = engines.flatMap((engine) => {
+    const engineResults = operationResults.filter((r) => r.database === engine.name);
+    const profiles = Array.from(new Set(engineResults.map((r) => r.consistency)));
+    if (profiles.length === 0) {
+      return [{ label: engine.name, color: engine.color, result: undefined }];
+    }
+    return profiles.map((profile) => ({
+      label: profile ? `${engine.name} (${profile})` : engine.name,
+      color: engine.color,
+      result: engineResults.find((r) => r.consistency === profile),
+    }));
+  });
+
+  const latencyData = {
+    labels: bars.map((bar) => bar.label),
+    datasets: percentileKeys.map(({ key, label, color }) => ({
+      label: `${label} (ms)`,
+      data: bars.map((bar) => bar.result?.latency?.[key] || 0),
+      backgroundColor: `rgba(${color}, 0.6)`,
+      borderColor: `rgba(${color}, 1)`,
+      borderWidth: 1,
+    })),
+  };
 
-  const data = {
-    labels: ['Cassandra', 'MongoDB', 'CockroachDB'],
+  const data = metric === 'latency' ? latencyData : {
+    labels: bars.map((bar) => bar.label),
     datasets: [
       {
         label: `Süre (ms)`,
-        data: [
-          cassandraResult?.timeTaken || 0,
-          mongoResult?.timeTaken || 0,
-          cockroachResult?.timeTaken || 0,
-        ],
-        backgroundColor: [
-          'rgba(54, 162, 235, 0.6)',
-          'rgba(75, 192, 192, 0.6)',
-          'rgba(255, 99, 132, 0.6)',
-        ],
-        borderColor: [
-          'rgba(54, 162, 235, 1)',
-          'rgba(75, 192, 192, 1)',
-          'rgba(255, 99, 132, 1)',
-        ],
+        data: bars.map((bar) => bar.result?.timeTaken || 0),
+        backgroundColor: bars.map((bar) => `rgba(${bar.color}, 0.6)`),
+        borderColor: bars.map((bar) => `rgba(${bar.color}, 1)`),
         borderWidth: 1,
       },
     ],
@@ -62,6 +84,8 @@ export default function PerformanceChart({ results, operation }: PerformanceChar
     write: 'Yazma',
     read: 'Okuma',
     update: 'Güncelleme',
+    scan: 'Tarama',
+    delete: 'Silme',
   };
 
   const options = {
@@ -78,7 +102,9 @@ export default function PerformanceChart({ results, operation }: PerformanceChar
       },
       title: {
         display: true,
-        text: `${operationLabels[operation]} İşlemi Performansı`,
+        text: metric === 'latency'
+          ? `${operationLabels[operation]} İşlemi Gecikme Yüzdelikleri`
+          : `${operationLabels[operation]} İşlemi Performansı`,
         font: {
           size: 14,
         },
@@ -86,12 +112,12 @@ export default function PerformanceChart({ results, operation }: PerformanceChar
       tooltip: {
         callbacks: {
           afterLabel: (context: any) => {
-            const result = operationResults.find(
-              (r) => r.database === context.label
-            );
+            const result = bars[context.dataIndex]?.result;
             if (result) {
               return [
                 `Kayıt Sayısı: ${result.recordCount.toLocaleString()}`,
+                result.opsPerSec !== undefined ? `İşlem/sn: ${result.opsPerSec.toLocaleString()}` : '',
+                result.latency ? `Ortalama: ${result.latency.mean}ms (σ ${result.latency.stddev}ms)` : '',
                 `Veri Bütünlüğü: ${result.dataIntegrity ? 'Başarılı' : 'Başarısız'}`,
                 result.error ? `Hata: ${result.error}` : '',
               ].filter(Boolean);
@@ -106,7 +132,7 @@ export default function PerformanceChart({ results, operation }: PerformanceChar
         beginAtZero: true,
         title: {
           display: true,
-          text: 'Süre (milisaniye)',
+          text: metric === 'latency' ? 'Gecikme (milisaniye)' : 'Süre (milisaniye)',
           font: {
             size: 12,
           },
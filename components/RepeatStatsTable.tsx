@@ -0,0 +1,110 @@
+import type { RepeatTestResult } from '@/lib/types';
+import { compareRepeatResults } from '@/lib/stats';
+
+interface RepeatStatsTableProps {
+  results: RepeatTestResult[];
+}
+
+const operationLabels: { [key: string]: string } = {
+  write: 'Yazma',
+  read: 'Okuma',
+  update: 'Güncelleme',
+  scan: 'Tarama',
+  delete: 'Silme',
+};
+
+// Above this coefficient of variation the runs are too noisy to compare on averages
+const HIGH_CV_PERCENT = 20;
+
+const cellStyle = { padding: '0.5rem', color: '#495057', fontSize: '0.8rem' };
+const numericCellStyle = { ...cellStyle, fontFamily: 'monospace' };
+const headerStyle = { padding: '0.5rem', textAlign: 'left' as const, fontWeight: '600', color: '#495057', fontSize: '0.8rem' };
+
+const ms = (value: number) => Math.round(value).toLocaleString();
+
+export default function RepeatStatsTable({ results }: RepeatStatsTableProps) {
+  const comparisons = compareRepeatResults(results);
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+            <th style={headerStyle}>İşlem</th>
+            <th style={headerStyle}>Veritabanı</th>
+            <th style={headerStyle}>Başarılı/Başarısız</th>
+            <th style={headerStyle}>Medyan (ms)</th>
+            <th style={headerStyle}>Ortalama (ms)</th>
+            <th style={headerStyle}>%95 GA (ms)</th>
+            <th style={headerStyle}>Std. Sapma</th>
+            <th style={headerStyle}>CV</th>
+            <th style={headerStyle}>Aykırı</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => (
+            <tr key={`${result.operation}-${result.database}`} style={{ borderBottom: '1px solid #e9ecef' }}>
+              <td style={cellStyle}>{operationLabels[result.operation] || result.operation}</td>
+              <td style={{ ...cellStyle, fontWeight: '600', color: '#212529' }}>{result.database}</td>
+              <td style={numericCellStyle}>
+                {result.times.length - result.failures}/
+                <span style={{ color: result.failures > 0 ? '#dc3545' : '#495057', fontWeight: result.failures > 0 ? 'bold' : 'normal' }}>
+                  {result.failures}
+                </span>
+              </td>
+              <td style={numericCellStyle}>{ms(result.median)}</td>
+              <td style={numericCellStyle}>{ms(result.average)}</td>
+              <td style={numericCellStyle}>{result.ci95 ? `${ms(result.ci95.low)} – ${ms(result.ci95.high)}` : '-'}</td>
+              <td style={numericCellStyle}>{ms(result.stddev)}</td>
+              <td
+                style={{ ...numericCellStyle, color: result.cv > HIGH_CV_PERCENT ? '#dc3545' : '#495057' }}
+                title={result.cv > HIGH_CV_PERCENT ? 'Yüksek değişkenlik: ölçümler gürültülü' : undefined}
+              >
+                %{result.cv.toFixed(1)}
+              </td>
+              <td style={numericCellStyle}>
+                {result.outliers.length > 0 ? result.outliers.map((index) => `#${index + 1}`).join(', ') : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {comparisons.length > 0 && (
+        <>
+          <h3 style={{ margin: '1rem 0 0.5rem', color: '#1a1a1a', fontSize: '0.95rem', fontWeight: '600' }}>
+            İkili Anlamlılık Testi (Mann-Whitney U, α = 0,05)
+          </h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+                <th style={headerStyle}>İşlem</th>
+                <th style={headerStyle}>Karşılaştırma</th>
+                <th style={headerStyle}>Medyan Oranı</th>
+                <th style={headerStyle}>U</th>
+                <th style={headerStyle}>p</th>
+                <th style={headerStyle}>Sonuç</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map((comparison) => (
+                <tr key={`${comparison.operation}-${comparison.faster}-${comparison.slower}`} style={{ borderBottom: '1px solid #e9ecef' }}>
+                  <td style={cellStyle}>{operationLabels[comparison.operation] || comparison.operation}</td>
+                  <td style={cellStyle}>{comparison.faster} / {comparison.slower}</td>
+                  <td style={numericCellStyle}>{comparison.speedup.toFixed(2)}x</td>
+                  <td style={numericCellStyle}>{comparison.u}</td>
+                  <td style={numericCellStyle}>{comparison.pValue < 0.001 ? '< 0,001' : comparison.pValue.toFixed(3)}</td>
+                  <td style={{ ...cellStyle, color: comparison.significant ? '#28a745' : '#6c757d', fontWeight: comparison.significant ? '600' : 'normal' }}>
+                    {comparison.significant
+                      ? `${comparison.faster} anlamlı ölçüde daha hızlı`
+                      : 'Anlamlı fark yok'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
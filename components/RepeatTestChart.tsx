@@ -9,7 +9,7 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js';
-import type { RepeatTestResult } from '@/lib/types';
+import type { OperationType, RepeatTestResult } from '@/lib/types';
 
 ChartJS.register(
   CategoryScale,
@@ -23,7 +23,7 @@ ChartJS.register(
 
 interface RepeatTestChartProps {
   results: RepeatTestResult[];
-  operation: 'write' | 'read' | 'update';
+  operation: OperationType;
 }
 
 export default function RepeatTestChart({ results, operation }: RepeatTestChartProps) {
@@ -50,10 +50,16 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
     write: 'Yazma',
     read: 'Okuma',
     update: 'Güncelleme',
+    scan: 'Tarama',
+    delete: 'Silme',
   };
 
-  // Prepare data for line chart
-  const iterations = Array.from({ length: 10 }, (_, i) => i + 1);
+  // Prepare data for line chart; failed runs are null and leave a gap in the line
+  const runCount = Math.max(...operationResults.map((r) => r.times.length));
+  const iterations = Array.from({ length: runCount }, (_, i) => i + 1);
+
+  // Outlier runs are drawn as larger points
+  const pointRadius = (result: RepeatTestResult) => result.times.map((_, i) => (result.outliers.includes(i) ? 7 : 4));
   
   const cassandraResult = operationResults.find((r) => r.database === 'Cassandra');
   const mongoResult = operationResults.find((r) => r.database === 'MongoDB');
@@ -69,7 +75,7 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
       backgroundColor: 'rgba(54, 162, 235, 0.1)',
       borderWidth: 2,
       tension: 0.1,
-      pointRadius: 4,
+      pointRadius: pointRadius(cassandraResult),
       pointHoverRadius: 6,
     });
   }
@@ -82,7 +88,7 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
       backgroundColor: 'rgba(75, 192, 192, 0.1)',
       borderWidth: 2,
       tension: 0.1,
-      pointRadius: 4,
+      pointRadius: pointRadius(mongoResult),
       pointHoverRadius: 6,
     });
   }
@@ -95,7 +101,7 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
       backgroundColor: 'rgba(255, 99, 132, 0.1)',
       borderWidth: 2,
       tension: 0.1,
-      pointRadius: 4,
+      pointRadius: pointRadius(cockroachResult),
       pointHoverRadius: 6,
     });
   }
@@ -120,7 +126,7 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
       },
       title: {
         display: true,
-        text: `${operationLabels[operation]} İşlemi - 10 Tekrar Performans Karşılaştırması`,
+        text: `${operationLabels[operation]} İşlemi - ${runCount} Tekrar Performans Karşılaştırması`,
         font: {
           size: 13,
         },
@@ -133,9 +139,14 @@ export default function RepeatTestChart({ results, operation }: RepeatTestChartP
             );
             if (result) {
               return [
-                `Ortalama: ${Math.round(result.average).toLocaleString()}ms`,
+                `Medyan: ${Math.round(result.median).toLocaleString()}ms`,
+                `Ortalama: ${Math.round(result.average).toLocaleString()}ms`
+                  + (result.ci95 ? ` (%95 GA ${Math.round(result.ci95.low).toLocaleString()}–${Math.round(result.ci95.high).toLocaleString()})` : ''),
                 `Min: ${result.min.toLocaleString()}ms`,
                 `Max: ${result.max.toLocaleString()}ms`,
+                `CV: %${result.cv.toFixed(1)}`,
+                ...(result.outliers.includes(context.dataIndex) ? ['Aykırı değer (IQR)'] : []),
+                ...(result.failures > 0 ? [`Başarısız: ${result.failures}`] : []),
               ];
             }
             return '';
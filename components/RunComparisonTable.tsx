@@ -0,0 +1,93 @@
+import type { ComparisonMetric, ComparisonRow, MetricDelta } from '@/lib/types';
+
+interface RunComparisonTableProps {
+  rows: ComparisonRow[];
+}
+
+const metricLabels: Record<ComparisonMetric, string> = {
+  opsPerSec: 'İşlem/sn',
+  timeTaken: 'Süre (ms)',
+  p50: 'p50 (ms)',
+  p95: 'p95 (ms)',
+  p99: 'p99 (ms)',
+};
+
+const operationLabels: { [key: string]: string } = {
+  write: 'Yazma',
+  read: 'Okuma',
+  update: 'Güncelleme',
+  scan: 'Tarama',
+  delete: 'Silme',
+};
+
+const verdictColors = {
+  regression: '#dc3545',
+  improvement: '#28a745',
+  unchanged: '#495057',
+};
+
+const cellStyle = { padding: '0.5rem', color: '#495057', fontSize: '0.8rem' };
+const numericCellStyle = { ...cellStyle, fontFamily: 'monospace' };
+const headerStyle = { padding: '0.5rem', textAlign: 'left' as const, fontWeight: '600', color: '#495057', fontSize: '0.8rem' };
+
+const formatValue = (value: number) => (Math.round(value * 100) / 100).toLocaleString();
+
+function MetricCell({ delta }: { delta?: MetricDelta }) {
+  if (!delta) {
+    return <td style={numericCellStyle}>—</td>;
+  }
+
+  const percent = delta.deltaPercent === null ? '' : ` (${delta.deltaPercent > 0 ? '+' : ''}${delta.deltaPercent.toFixed(1)}%)`;
+  const title = delta.interval
+    ? `Fark için %95 güven aralığı: ${formatValue(delta.interval.low)} … ${formatValue(delta.interval.high)}`
+    : 'Güven aralığı için her iki çalıştırmada en az iki örnek gerekir';
+
+  return (
+    <td style={numericCellStyle} title={title}>
+      {formatValue(delta.base)} → {formatValue(delta.head)}
+      <div style={{ color: verdictColors[delta.verdict], fontWeight: delta.verdict === 'unchanged' ? 'normal' : '600' }}>
+        {delta.verdict === 'regression' ? '▼ gerileme' : delta.verdict === 'improvement' ? '▲ iyileşme' : '='}
+        {percent}
+      </div>
+    </td>
+  );
+}
+
+export default function RunComparisonTable({ rows }: RunComparisonTableProps) {
+  const metrics = Object.keys(metricLabels) as ComparisonMetric[];
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+            <th style={headerStyle}>Veritabanı</th>
+            <th style={headerStyle}>İşlem</th>
+            <th style={headerStyle}>Örnek (temel / yeni)</th>
+            {metrics.map((metric) => (
+              <th key={metric} style={headerStyle}>{metricLabels[metric]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={`${row.database}-${row.operation}`} style={{ borderBottom: '1px solid #e9ecef' }}>
+              <td style={{ ...cellStyle, fontWeight: '600', color: '#212529' }}>{row.database}</td>
+              <td style={cellStyle}>{operationLabels[row.operation] ?? row.operation}</td>
+              <td style={numericCellStyle}>{row.baseSamples} / {row.headSamples}</td>
+              {row.metrics.length === 0 ? (
+                <td colSpan={metrics.length} style={{ ...cellStyle, color: '#6c757d' }}>
+                  {row.baseSamples === 0 ? 'Yalnızca yeni çalıştırmada var' : 'Yalnızca temel çalıştırmada var'}
+                </td>
+              ) : (
+                metrics.map((metric) => (
+                  <MetricCell key={metric} delta={row.metrics.find((delta) => delta.metric === metric)} />
+                ))
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
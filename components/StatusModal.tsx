@@ -3,15 +3,20 @@ import type { TestStatus } from '@/lib/types';
 interface StatusModalProps {
   status: TestStatus | null;
   onClose: () => void;
+  onCancel?: () => void; // passed only while a cancellable job is running
 }
 
-export default function StatusModal({ status, onClose }: StatusModalProps) {
+export default function StatusModal({ status, onClose, onCancel }: StatusModalProps) {
   if (!status) return null;
 
   const operationLabels: { [key: string]: string } = {
     write: 'Yazma',
     read: 'Okuma',
     update: 'Güncelleme',
+    scan: 'Tarama',
+    delete: 'Silme',
+    transfer: 'Transfer',
+    contention: 'Çekişme',
   };
 
   const statusColors: { [key: string]: string } = {
@@ -86,7 +91,7 @@ export default function StatusModal({ status, onClose }: StatusModalProps) {
           <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', paddingBottom: '0.75rem', borderBottom: '1px solid #e9ecef' }}>
             <span style={{ fontWeight: '600', color: '#495057' }}>İşlem:</span>
             <span style={{ color: '#28a745', fontWeight: '500' }}>
-              {operationLabels[status.currentOperation] || status.currentOperation}
+              {operationLabels[status.currentOperation] || status.currentOperation.replace('ycsb-', 'YCSB ')}
             </span>
           </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '1rem', paddingBottom: '0.75rem', borderBottom: '1px solid #e9ecef' }}>
@@ -181,6 +186,26 @@ export default function StatusModal({ status, onClose }: StatusModalProps) {
             {status.status === 'error' ? 'Kapat' : 'Tamam'}
           </button>
         )}
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            style={{
+              marginTop: '1.5rem',
+              width: '100%',
+              padding: '0.75rem',
+              backgroundColor: 'white',
+              color: '#dc3545',
+              border: '1px solid #dc3545',
+              borderRadius: '6px',
+              fontSize: '1rem',
+              fontWeight: '600',
+              cursor: 'pointer',
+            }}
+          >
+            İptal Et
+          </button>
+        )}
       </div>
 
       <style jsx>{`
@@ -0,0 +1,134 @@
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import type { SweepPoint } from '@/lib/types';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface SweepChartProps {
+  points: SweepPoint[];
+}
+
+const engineColors: { [key: string]: string } = {
+  Cassandra: '54, 162, 235',
+  MongoDB: '75, 192, 192',
+  CockroachDB: '255, 99, 132',
+};
+
+export default function SweepChart({ points }: SweepChartProps) {
+  const validPoints = points.filter((p) => !p.error && p.latency);
+
+  if (validPoints.length === 0) {
+    return (
+      <div
+        style={{
+          padding: '2rem',
+          textAlign: 'center',
+          color: '#999',
+          border: '1px solid #ddd',
+          borderRadius: '8px',
+        }}
+      >
+        Eşzamanlılık taraması için sonuç bulunamadı
+      </div>
+    );
+  }
+
+  const databases = Array.from(new Set(validPoints.map((p) => p.database)));
+
+  // Throughput on x, tail latency on y; each engine traces a curve as concurrency rises
+  const data = {
+    datasets: databases.map((database) => {
+      const color = engineColors[database] || '108, 117, 125';
+      return {
+        label: database,
+        data: validPoints
+          .filter((p) => p.database === database)
+          .sort((a, b) => a.concurrency - b.concurrency)
+          .map((p) => ({ x: p.opsPerSec, y: p.latency!.p99, concurrency: p.concurrency, p50: p.latency!.p50 })),
+        borderColor: `rgba(${color}, 1)`,
+        backgroundColor: `rgba(${color}, 0.1)`,
+        borderWidth: 2,
+        tension: 0.1,
+        pointRadius: 4,
+        pointHoverRadius: 6,
+      };
+    }),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          font: {
+            size: 11,
+          },
+          usePointStyle: true,
+        },
+      },
+      title: {
+        display: true,
+        text: 'Verim - Gecikme Eğrisi (p99)',
+        font: {
+          size: 13,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) => [
+            `${context.dataset.label} - eşzamanlılık ${context.raw.concurrency}`,
+            `${context.raw.x.toLocaleString()} işlem/sn`,
+            `p50: ${context.raw.p50}ms, p99: ${context.raw.y}ms`,
+          ],
+        },
+      },
+    },
+    scales: {
+      y: {
+        type: 'linear' as const,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'p99 Gecikme (milisaniye)',
+          font: {
+            size: 11,
+          },
+        },
+      },
+      x: {
+        type: 'linear' as const,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'Verim (işlem/sn)',
+          font: {
+            size: 11,
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <div style={{ marginBottom: '0.5rem', height: '280px' }}>
+      <Line data={data} options={options} />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import type { WorkloadMixResult } from '@/lib/types';
+
+interface WorkloadMixTableProps {
+  results: WorkloadMixResult[];
+}
+
+const mixOperationLabels: { [key: string]: string } = {
+  read: 'Okuma',
+  update: 'Güncelleme',
+  insert: 'Ekleme',
+  scan: 'Tarama',
+  readModifyWrite: 'Oku-Değiştir-Yaz',
+};
+
+const cellStyle = { padding: '0.5rem', color: '#495057', fontSize: '0.8rem' };
+const numericCellStyle = { ...cellStyle, fontFamily: 'monospace' };
+const headerStyle = { padding: '0.5rem', textAlign: 'left' as const, fontWeight: '600', color: '#495057', fontSize: '0.8rem' };
+
+export default function WorkloadMixTable({ results }: WorkloadMixTableProps) {
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f8f9fa', borderBottom: '2px solid #dee2e6' }}>
+            <th style={headerStyle}>Veritabanı</th>
+            <th style={headerStyle}>İşlem</th>
+            <th style={headerStyle}>Adet</th>
+            <th style={headerStyle}>Hata</th>
+            <th style={headerStyle}>p50 (ms)</th>
+            <th style={headerStyle}>p95 (ms)</th>
+            <th style={headerStyle}>p99 (ms)</th>
+            <th style={headerStyle}>İşlem/sn</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result) => [
+            <tr key={`${result.database}-total`} style={{ borderBottom: '1px solid #e9ecef', backgroundColor: '#fafbfc' }}>
+              <td style={{ ...cellStyle, fontWeight: '600', color: '#212529' }}>
+                {result.database} (YCSB {result.workload}{result.consistency ? `, ${result.consistency}` : ''})
+              </td>
+              <td style={cellStyle}>
+                {result.error ? (
+                  <span style={{ color: '#dc3545' }} title={result.error}>Hata</span>
+                ) : (
+                  'Toplam'
+                )}
+              </td>
+              <td style={numericCellStyle}>{result.operationCount.toLocaleString()}</td>
+              <td style={numericCellStyle}>{result.operations.reduce((sum, op) => sum + op.errors, 0)}</td>
+              <td style={numericCellStyle}>{result.latency.p50}</td>
+              <td style={numericCellStyle}>{result.latency.p95}</td>
+              <td style={numericCellStyle}>{result.latency.p99}</td>
+              <td style={numericCellStyle}>{result.opsPerSec.toLocaleString()}</td>
+            </tr>,
+            ...result.operations.map((op) => (
+              <tr key={`${result.database}-${op.operation}`} style={{ borderBottom: '1px solid #e9ecef' }}>
+                <td style={cellStyle}></td>
+                <td style={cellStyle}>{mixOperationLabels[op.operation] || op.operation}</td>
+                <td style={numericCellStyle}>{op.count.toLocaleString()}</td>
+                <td style={{ ...numericCellStyle, color: op.errors > 0 ? '#dc3545' : '#495057' }}>{op.errors}</td>
+                <td style={numericCellStyle}>{op.latency.p50}</td>
+                <td style={numericCellStyle}>{op.latency.p95}</td>
+                <td style={numericCellStyle}>{op.latency.p99}</td>
+                <td style={numericCellStyle}></td>
+              </tr>
+            )),
+          ])}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import type { DatabaseType, KeyDistribution, LoadMode, RunIsolation, WorkloadConfig } from '@/lib/types';
+import {
+  CONSISTENCY_PROFILES,
+  DEFAULT_WORKLOAD_CONFIG,
+  INCREMENT_STRATEGIES,
+  KEY_DISTRIBUTIONS,
+  LOAD_MODES,
+  RUN_ISOLATIONS,
+  WRITE_STRATEGIES,
+} from '@/lib/workloadConfig';
+
+interface WorkloadSettingsProps {
+  value: WorkloadConfig;
+  onChange: (value: WorkloadConfig) => void;
+  disabled?: boolean;
+}
+
+const numericFields: { key: keyof WorkloadConfig; label: string; min: number }[] = [
+  { key: 'recordCount', label: 'Kayıt Sayısı (yazma)', min: 1 },
+  { key: 'operationCount', label: 'İşlem Sayısı (okuma/güncelleme)', min: 1 },
+  { key: 'batchSize', label: 'Batch Boyutu', min: 1 },
+  { key: 'concurrency', label: 'Eşzamanlılık', min: 1 },
+  { key: 'payloadSize', label: 'Veri Boyutu (byte)', min: 0 },
+  { key: 'seed', label: 'Rastgelelik Tohumu (seed)', min: 0 },
+  { key: 'accountCount', label: 'Hesap Sayısı (transfer)', min: 2 },
+  { key: 'hotKeyCount', label: 'Sıcak Anahtar Sayısı (çekişme)', min: 1 },
+  { key: 'warmupOperations', label: 'Isınma İşlemi (0 = kapalı)', min: 0 },
+  { key: 'steadyStateThreshold', label: 'Kararlı Durum Eşiği (%)', min: 0 },
+];
+
+const openLoopFields: { key: keyof WorkloadConfig; label: string; min: number }[] = [
+  { key: 'targetOpsPerSec', label: 'Hedef İşlem/sn', min: 1 },
+  { key: 'durationSec', label: 'Süre (sn)', min: 1 },
+];
+
+const poolFields: { key: keyof WorkloadConfig; label: string; min: number }[] = [
+  { key: 'cassandraCoreConnectionsPerHost', label: 'Cassandra Bağlantı/Host', min: 1 },
+  { key: 'mongoMinPoolSize', label: 'MongoDB Min Havuz', min: 0 },
+  { key: 'mongoMaxPoolSize', label: 'MongoDB Maks Havuz', min: 1 },
+  { key: 'cockroachPoolSize', label: 'CockroachDB Havuz Boyutu', min: 1 },
+];
+
+const distributionLabels: { [key: string]: string } = {
+  sequential: 'Sıralı',
+  uniform: 'Düzgün (uniform)',
+  zipfian: 'Zipfian',
+  hotspot: 'Sıcak nokta (hotspot)',
+  latest: 'En son (latest)',
+};
+
+const modeLabels: { [key: string]: string } = {
+  closed: 'Kapalı döngü (adet bazlı)',
+  open: 'Açık döngü (hız sınırlı)',
+};
+
+const isolationLabels: { [key: string]: string } = {
+  shared: 'Paylaşımlı (veriyi koru)',
+  truncate: 'Yazmadan önce temizle',
+};
+
+const databaseLabels: Record<DatabaseType, string> = {
+  cassandra: 'Cassandra',
+  mongo: 'MongoDB',
+  cockroach: 'CockroachDB',
+};
+
+const writeStrategyLabels: { [key: string]: string } = {
+  concurrent: 'Tek satır, eşzamanlı execute',
+  'unlogged-batch': 'UNLOGGED BATCH',
+  'logged-batch': 'LOGGED BATCH',
+  'execute-concurrent': 'executeConcurrent',
+  'insert-many': 'insertMany',
+  'bulk-write': 'bulkWrite',
+  'single-row': 'Tek satırlık INSERT',
+  'multi-row': 'Çok satırlı VALUES',
+  copy: 'COPY FROM',
+};
+
+const consistencyLabels: { [key: string]: string } = {
+  one: 'ONE',
+  quorum: 'QUORUM',
+  all: 'ALL',
+  w1: 'w:1, local okuma',
+  majority: 'w:majority + journal, majority okuma',
+  'secondary-read': 'w:majority + journal, ikincil düğümden okuma',
+  serializable: 'SERIALIZABLE',
+  'read-committed': 'READ COMMITTED',
+  'follower-read': 'Takipçi okuma (AS OF SYSTEM TIME)',
+};
+
+const incrementStrategyLabels: { [key: string]: string } = {
+  counter: 'COUNTER sütunu',
+  lwt: 'LWT (IF c = ?)',
+  inc: '$inc',
+  increment: 'SET c = c + 1',
+  'read-modify-write': 'Oku-değiştir-yaz',
+};
+
+const databaseTypes = Object.keys(databaseLabels) as DatabaseType[];
+
+// Settings chosen separately for every engine
+const engineChoiceFields: {
+  key: 'writeStrategies' | 'consistencyProfiles' | 'incrementStrategies';
+  label: string;
+  options: Record<DatabaseType, string[]>;
+  labels: { [key: string]: string };
+}[] = [
+  { key: 'writeStrategies', label: 'Yazma Yöntemi', options: WRITE_STRATEGIES, labels: writeStrategyLabels },
+  { key: 'consistencyProfiles', label: 'Tutarlılık', options: CONSISTENCY_PROFILES, labels: consistencyLabels },
+  { key: 'incrementStrategies', label: 'Artırma Yöntemi', options: INCREMENT_STRATEGIES, labels: incrementStrategyLabels },
+];
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.375rem 0.5rem',
+  borderRadius: '6px',
+  border: '1px solid #dee2e6',
+  fontSize: '0.85rem',
+  boxSizing: 'border-box' as const,
+};
+
+export default function WorkloadSettings({ value, onChange, disabled }: WorkloadSettingsProps) {
+  const update = (changes: Partial<WorkloadConfig>) => onChange({ ...value, ...changes });
+
+  return (
+    <div style={{
+      marginBottom: '1rem',
+      padding: '1rem',
+      border: '1px solid #e9ecef',
+      borderRadius: '10px',
+      backgroundColor: '#fafbfc',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <h3 style={{ margin: 0, color: '#495057', fontSize: '1rem', fontWeight: '600' }}>İş Yükü Ayarları</h3>
+        <button
+          onClick={() => onChange(DEFAULT_WORKLOAD_CONFIG)}
+          disabled={disabled}
+          style={{
+            padding: '0.25rem 0.75rem',
+            backgroundColor: 'transparent',
+            color: '#6c757d',
+            border: '1px solid #dee2e6',
+            borderRadius: '6px',
+            cursor: disabled ? 'not-allowed' : 'pointer',
+            fontSize: '0.8rem',
+          }}
+        >
+          Varsayılanlar
+        </button>
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '0.75rem' }}>
+        {[...numericFields, ...(value.mode === 'open' ? openLoopFields : []), ...poolFields].map((field) => (
+          <label key={field.key} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.8rem', color: '#495057' }}>
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              value={value[field.key] as number}
+              disabled={disabled}
+              onChange={(e) => update({ [field.key]: Math.max(field.min, parseInt(e.target.value, 10) || field.min) })}
+              style={inputStyle}
+            />
+          </label>
+        ))}
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.8rem', color: '#495057' }}>
+          Yük Modu
+          <select
+            value={value.mode}
+            disabled={disabled}
+            onChange={(e) => update({ mode: e.target.value as LoadMode })}
+            style={inputStyle}
+          >
+            {LOAD_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {modeLabels[mode] || mode}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.8rem', color: '#495057' }}>
+          Anahtar Dağılımı
+          <select
+            value={value.keyDistribution}
+            disabled={disabled}
+            onChange={(e) => update({ keyDistribution: e.target.value as KeyDistribution })}
+            style={inputStyle}
+          >
+            {KEY_DISTRIBUTIONS.map((distribution) => (
+              <option key={distribution} value={distribution}>
+                {distributionLabels[distribution] || distribution}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.8rem', color: '#495057' }}>
+          Çalıştırma İzolasyonu
+          <select
+            value={value.isolation}
+            disabled={disabled}
+            onChange={(e) => update({ isolation: e.target.value as RunIsolation })}
+            style={inputStyle}
+          >
+            {RUN_ISOLATIONS.map((isolation) => (
+              <option key={isolation} value={isolation}>
+                {isolationLabels[isolation] || isolation}
+              </option>
+            ))}
+          </select>
+        </label>
+        {engineChoiceFields.map((field) =>
+          databaseTypes.map((dbType) => (
+            <label key={`${field.key}-${dbType}`} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.8rem', color: '#495057' }}>
+              {databaseLabels[dbType]} {field.label}
+              <select
+                value={value[field.key][dbType]}
+                disabled={disabled}
+                onChange={(e) => update({ [field.key]: { ...value[field.key], [dbType]: e.target.value } })}
+                style={inputStyle}
+              >
+                {field.options[dbType].map((option) => (
+                  <option key={option} value={option}>
+                    {field.labels[option] || option}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
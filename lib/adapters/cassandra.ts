@@ -0,0 +1,331 @@
+import { concurrent, types } from 'cassandra-driver';
+import { connectCassandra, closeCassandra, getCassandraClient, getCassandraConsistency, getCassandraPoolSettings } from '../dbConnectors';
+import { runBounded } from '../loadGenerator';
+import { DatabaseAdapter, RecordKey, TestRecord } from '../types';
+
+function requireClient() {
+  const client = getCassandraClient();
+  if (!client) {
+    throw new Error('Cassandra client not initialized');
+  }
+  return client;
+}
+
+const INSERT_QUERY = 'INSERT INTO test_data (id, user_id, name, email, age, created_at, data) VALUES (?, ?, ?, ?, ?, ?, ?)';
+
+// All accounts share one partition so a conditional batch can update two of them atomically
+const ACCOUNTS_PARTITION = 'bank';
+const MAX_TRANSFER_RETRIES = 10;
+const MAX_INCREMENT_RETRIES = 100;
+
+// The driver allows 2048 requests in flight per connection (maxRequestsPerConnection) and rejects more with
+// BusyConnection; stay well below it so batches written side by side still fit
+const MAX_CONCURRENT_EXECUTES = 512;
+
+// Cassandra rejects batches above batch_size_fail_threshold (50 KB by default); keep well below it
+const MAX_BATCH_BYTES = 32 * 1024;
+// UUID, two INTs and a TIMESTAMP, plus an allowance for cell and row overhead
+const FIXED_ROW_BYTES = 16 + 4 + 4 + 8 + 64;
+
+function rowBytes(record: TestRecord): number {
+  return FIXED_ROW_BYTES + Buffer.byteLength(record.name) + Buffer.byteLength(record.email) + Buffer.byteLength(record.data);
+}
+
+// Split records into consecutive groups under MAX_BATCH_BYTES; a row larger than the budget goes alone
+function splitBySize(records: TestRecord[]): TestRecord[][] {
+  const groups: TestRecord[][] = [];
+  let group: TestRecord[] = [];
+  let bytes = 0;
+  for (const record of records) {
+    const size = rowBytes(record);
+    if (group.length > 0 && bytes + size > MAX_BATCH_BYTES) {
+      groups.push(group);
+      group = [];
+      bytes = 0;
+    }
+    group.push(record);
+    bytes += size;
+  }
+  if (group.length > 0) {
+    groups.push(group);
+  }
+  return groups;
+}
+
+function toParams(record: TestRecord) {
+  return [record.id, record.user_id, record.name, record.email, record.age, record.created_at, record.data];
+}
+
+function toRecord(row: types.Row): TestRecord {
+  return {
+    id: row.get('id').toString(),
+    user_id: row.get('user_id'),
+    name: row.get('name'),
+    email: row.get('email'),
+    age: row.get('age'),
+    created_at: row.get('created_at'),
+    data: row.get('data'),
+  };
+}
+
+/**
+ * Cassandra adapter
+ */
+export function createCassandraAdapter(): DatabaseAdapter {
+  return {
+    type: 'cassandra',
+    displayName: 'Cassandra',
+
+    async connect(config) {
+      await connectCassandra(config?.cassandraCoreConnectionsPerHost, config?.consistencyProfiles.cassandra);
+    },
+
+    poolSettings: getCassandraPoolSettings,
+    consistencyProfile: getCassandraConsistency,
+
+    async serverVersion() {
+      const result = await requireClient().execute('SELECT release_version FROM system.local');
+      return result.first().get('release_version');
+    },
+
+    async ensureSchema() {
+      await requireClient().execute(`
+        CREATE TABLE IF NOT EXISTS test_data (
+          id UUID PRIMARY KEY,
+          user_id INT,
+          name TEXT,
+          email TEXT,
+          age INT,
+          created_at TIMESTAMP,
+          data TEXT
+        )
+      `);
+    },
+
+    async insertBatch(records, strategy = 'concurrent', timeRow = (call) => call()) {
+      const client = requireClient();
+      switch (strategy) {
+        case 'concurrent':
+          // One prepared execute per row, up to MAX_CONCURRENT_EXECUTES in flight
+          await runBounded(records.length, MAX_CONCURRENT_EXECUTES, async (i) => {
+            await timeRow(() => client.execute(INSERT_QUERY, toParams(records[i]), { prepare: true }));
+          });
+          return;
+        case 'unlogged-batch':
+        case 'logged-batch': {
+          // A large write batch becomes several CQL batches sent together; each one is atomic on its own
+          await Promise.all(
+            splitBySize(records).map((group) =>
+              client.batch(
+                group.map((record) => ({ query: INSERT_QUERY, params: toParams(record) })),
+                { prepare: true, logged: strategy === 'logged-batch' }
+              )
+            )
+          );
+          return;
+        }
+        case 'execute-concurrent':
+          // Driver-managed fan-out with a bounded number of requests in flight
+          await concurrent.executeConcurrent(client, INSERT_QUERY, records.map(toParams), { raiseOnFirstError: true });
+          return;
+        default:
+          throw new Error(`Unsupported Cassandra write strategy: ${strategy}`);
+      }
+    },
+
+    async listKeys(limit) {
+      // Cassandra LIMIT doesn't support parameters; iterate the result set to follow every page
+      const result = await requireClient().execute(
+        `SELECT id, user_id FROM test_data LIMIT ${Math.floor(limit)}`,
+        [],
+        { prepare: false, fetchSize: 5000 }
+      );
+      const keys: RecordKey[] = [];
+      for await (const row of result) {
+        keys.push({ id: row.get('id').toString(), user_id: row.get('user_id') });
+      }
+      return keys;
+    },
+
+    async readById(id) {
+      const result = await requireClient().execute('SELECT * FROM test_data WHERE id = ?', [id], { prepare: true });
+      return result.rows.length > 0 ? toRecord(result.rows[0]) : null;
+    },
+
+    async updateById(id, changes) {
+      const columns = Object.keys(changes);
+      const assignments = columns.map((column) => `${column} = ?`).join(', ');
+      await requireClient().execute(
+        `UPDATE test_data SET ${assignments} WHERE id = ?`,
+        [...columns.map((column) => changes[column as keyof typeof changes]), id],
+        { prepare: true }
+      );
+    },
+
+    async deleteById(id) {
+      await requireClient().execute('DELETE FROM test_data WHERE id = ?', [id], { prepare: true });
+    },
+
+    async *scan(start, limit, pageSize) {
+      // Rows are ordered by partition token, so a range scan walks the token ring from the start key
+      const query = start
+        ? `SELECT * FROM test_data WHERE token(id) >= token(?) LIMIT ${Math.floor(limit)}`
+        : `SELECT * FROM test_data LIMIT ${Math.floor(limit)}`;
+      const params = start ? [start.id] : [];
+      let pageState: string | undefined;
+
+      do {
+        const result = await requireClient().execute(query, params, { prepare: true, fetchSize: pageSize, pageState });
+        if (result.rows.length > 0) {
+          yield result.rows.map(toRecord);
+        }
+        pageState = result.pageState || undefined;
+      } while (pageState);
+    },
+
+    async truncate() {
+      await requireClient().execute('TRUNCATE test_data');
+    },
+
+    async count() {
+      // Full-table count; fine for benchmark-sized tables, COUNT returns a Long
+      const result = await requireClient().execute('SELECT COUNT(*) FROM test_data');
+      return result.first().get('count').toNumber();
+    },
+
+    async maxUserId() {
+      // Full-table aggregate like count(); an empty table yields a null maximum
+      const result = await requireClient().execute('SELECT MAX(user_id) AS max_user_id FROM test_data');
+      return result.first()?.get('max_user_id') ?? null;
+    },
+
+    async transferUnsupportedReason() {
+      return null;
+    },
+
+    async resetAccounts(count, initialBalance) {
+      const client = requireClient();
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS accounts (
+          bank TEXT,
+          id INT,
+          balance INT,
+          PRIMARY KEY (bank, id)
+        )
+      `);
+      await client.execute('TRUNCATE accounts');
+      await concurrent.executeConcurrent(
+        client,
+        'INSERT INTO accounts (bank, id, balance) VALUES (?, ?, ?)',
+        Array.from({ length: count }, (_, id) => [ACCOUNTS_PARTITION, id, initialBalance]),
+        { raiseOnFirstError: true }
+      );
+    },
+
+    async transfer(from, to, amount) {
+      // Lightweight transaction: a single-partition conditional batch applies both updates only if neither balance moved
+      const client = requireClient();
+      for (let attempt = 0; attempt <= MAX_TRANSFER_RETRIES; attempt++) {
+        const result = await client.execute(
+          'SELECT id, balance FROM accounts WHERE bank = ? AND id IN (?, ?)',
+          [ACCOUNTS_PARTITION, from, to],
+          { prepare: true, consistency: types.consistencies.serial }
+        );
+        const balances = new Map<number, number>(result.rows.map((row) => [row.get('id'), row.get('balance')]));
+        const fromBalance = balances.get(from);
+        const toBalance = balances.get(to);
+        if (fromBalance === undefined || toBalance === undefined) {
+          throw new Error(`Account ${fromBalance === undefined ? from : to} not found`);
+        }
+        if (fromBalance < amount) {
+          return { committed: false, retries: attempt };
+        }
+
+        const update = 'UPDATE accounts SET balance = ? WHERE bank = ? AND id = ? IF balance = ?';
+        const batch = await client.batch([
+          { query: update, params: [fromBalance - amount, ACCOUNTS_PARTITION, from, fromBalance] },
+          { query: update, params: [toBalance + amount, ACCOUNTS_PARTITION, to, toBalance] },
+        ], { prepare: true });
+        if (batch.wasApplied()) {
+          return { committed: true, retries: attempt };
+        }
+      }
+      return { committed: false, retries: MAX_TRANSFER_RETRIES };
+    },
+
+    async checkAccounts() {
+      const result = await requireClient().execute(
+        'SELECT balance FROM accounts WHERE bank = ?',
+        [ACCOUNTS_PARTITION],
+        { prepare: true, fetchSize: 5000 }
+      );
+      const check = { accounts: 0, total: 0, negative: 0 };
+      for await (const row of result) {
+        const balance: number = row.get('balance');
+        check.accounts++;
+        check.total += balance;
+        if (balance < 0) check.negative++;
+      }
+      return check;
+    },
+
+    async resetCounters(count, strategy = 'counter') {
+      // Counter tables only allow counter columns and start every missing row at zero
+      const client = requireClient();
+      if (strategy === 'counter') {
+        await client.execute('CREATE TABLE IF NOT EXISTS hot_counters (id INT PRIMARY KEY, c COUNTER)');
+        await client.execute('TRUNCATE hot_counters');
+        return;
+      }
+      await client.execute('CREATE TABLE IF NOT EXISTS hot_keys (id INT PRIMARY KEY, c INT)');
+      await client.execute('TRUNCATE hot_keys');
+      await concurrent.executeConcurrent(
+        client,
+        'INSERT INTO hot_keys (id, c) VALUES (?, ?)',
+        Array.from({ length: count }, (_, id) => [id, 0]),
+        { raiseOnFirstError: true }
+      );
+    },
+
+    async increment(id, strategy = 'counter') {
+      const client = requireClient();
+      switch (strategy) {
+        case 'counter':
+          await client.execute('UPDATE hot_counters SET c = c + 1 WHERE id = ?', [id], { prepare: true });
+          return 0;
+        case 'lwt':
+          for (let attempt = 0; attempt <= MAX_INCREMENT_RETRIES; attempt++) {
+            const row = (await client.execute(
+              'SELECT c FROM hot_keys WHERE id = ?',
+              [id],
+              { prepare: true, consistency: types.consistencies.serial }
+            )).first();
+            const current: number = row ? row.get('c') : 0;
+            const result = await client.execute('UPDATE hot_keys SET c = ? WHERE id = ? IF c = ?', [current + 1, id, current], { prepare: true });
+            if (result.wasApplied()) {
+              return attempt;
+            }
+          }
+          throw new Error(`Increment of key ${id} still conflicting after ${MAX_INCREMENT_RETRIES} retries`);
+        default:
+          throw new Error(`Unsupported Cassandra increment strategy: ${strategy}`);
+      }
+    },
+
+    async readCounters(count, strategy = 'counter') {
+      const table = strategy === 'counter' ? 'hot_counters' : 'hot_keys';
+      const values: number[] = new Array(count).fill(0);
+      const result = await requireClient().execute(`SELECT id, c FROM ${table}`, [], { fetchSize: 5000 });
+      for await (const row of result) {
+        const value = row.get('c');
+        // Counter columns come back as Long
+        values[row.get('id')] = typeof value === 'number' ? value : value.toNumber();
+      }
+      return values;
+    },
+
+    async close() {
+      await closeCassandra();
+    },
+  };
+}
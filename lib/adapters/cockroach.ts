@@ -0,0 +1,305 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { from as copyFrom } from 'pg-copy-streams';
+import {
+  connectCockroachDB,
+  closeCockroachDB,
+  getCockroachConsistency,
+  getCockroachDBClient,
+  getCockroachPoolSettings,
+} from '../dbConnectors';
+import { DatabaseAdapter, TestRecord } from '../types';
+
+function requireClient() {
+  const client = getCockroachDBClient();
+  if (!client) {
+    throw new Error('CockroachDB client not initialized');
+  }
+  return client;
+}
+
+const COLUMNS = 'id, user_id, name, email, age, created_at, data';
+
+// PostgreSQL caps a statement at 65535 bind parameters
+const MAX_ROWS_PER_INSERT = Math.floor(65535 / 7);
+
+function toParams(record: TestRecord) {
+  return [record.id, record.user_id, record.name, record.email, record.age, record.created_at, record.data];
+}
+
+// created_at is a TIMESTAMP without time zone: pg sends Date parameters and parses results in local time,
+// so COPY has to write the same local wall-clock time for rows to read back unchanged
+function toLocalTimestamp(date: Date): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+// COPY text format: tab-separated, with backslash escapes for special characters
+function toCopyLine(record: TestRecord): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+  const values = [record.id, String(record.user_id), record.name, record.email, String(record.age), toLocalTimestamp(record.created_at), record.data];
+  return values.map(escape).join('\t') + '\n';
+}
+
+const MAX_TRANSFER_RETRIES = 10;
+const MAX_INCREMENT_RETRIES = 100;
+
+// Follower reads trade freshness for reading from the nearest replica without contention.
+// Only measured point reads use them; scans also back post-write verification, which must see current data.
+function readTable(): string {
+  return getCockroachConsistency() === 'follower-read'
+    ? 'test_data AS OF SYSTEM TIME follower_read_timestamp()'
+    : 'test_data';
+}
+
+// INT columns are INT8 in CockroachDB, which pg returns as strings
+function toRecord(row: any): TestRecord {
+  return {
+    id: row.id,
+    user_id: Number(row.user_id),
+    name: row.name,
+    email: row.email,
+    age: Number(row.age),
+    created_at: row.created_at,
+    data: row.data,
+  };
+}
+
+/**
+ * CockroachDB adapter
+ */
+export function createCockroachAdapter(): DatabaseAdapter {
+  return {
+    type: 'cockroach',
+    displayName: 'CockroachDB',
+
+    async connect(config) {
+      await connectCockroachDB(config?.cockroachPoolSize, config?.consistencyProfiles.cockroach);
+    },
+
+    poolSettings: getCockroachPoolSettings,
+    consistencyProfile: getCockroachConsistency,
+
+    async serverVersion() {
+      const { rows } = await requireClient().query('SELECT version() AS version');
+      return rows[0].version;
+    },
+
+    async ensureSchema() {
+      const client = requireClient();
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS test_data (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id INT,
+          name TEXT,
+          email TEXT,
+          age INT,
+          created_at TIMESTAMP DEFAULT NOW(),
+          data TEXT
+        )
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS test_data_user_id_idx ON test_data (user_id)');
+    },
+
+    async insertBatch(records, strategy = 'single-row', timeRow = (call) => call()) {
+      const client = requireClient();
+      switch (strategy) {
+        case 'single-row':
+          await Promise.all(
+            records.map((record) =>
+              timeRow(() => client.query(`INSERT INTO test_data (${COLUMNS}) VALUES ($1, $2, $3, $4, $5, $6, $7)`, toParams(record)))
+            )
+          );
+          return;
+        case 'multi-row':
+          for (let offset = 0; offset < records.length; offset += MAX_ROWS_PER_INSERT) {
+            const chunk = records.slice(offset, offset + MAX_ROWS_PER_INSERT);
+            const rows = chunk.map((_, row) => `(${Array.from({ length: 7 }, (_, col) => `$${row * 7 + col + 1}`).join(', ')})`);
+            await client.query(`INSERT INTO test_data (${COLUMNS}) VALUES ${rows.join(', ')}`, chunk.flatMap(toParams));
+          }
+          return;
+        case 'copy': {
+          // COPY streams over one connection, so check it out of the pool for the duration
+          const connection = await client.connect();
+          try {
+            await pipeline(
+              Readable.from(records.map(toCopyLine)),
+              connection.query(copyFrom(`COPY test_data (${COLUMNS}) FROM STDIN`))
+            );
+          } finally {
+            connection.release();
+          }
+          return;
+        }
+        default:
+          throw new Error(`Unsupported CockroachDB write strategy: ${strategy}`);
+      }
+    },
+
+    async listKeys(limit) {
+      const result = await requireClient().query('SELECT id, user_id FROM test_data LIMIT $1', [limit]);
+      return result.rows.map((row) => ({ id: row.id, user_id: Number(row.user_id) }));
+    },
+
+    async readById(id) {
+      const result = await requireClient().query(`SELECT * FROM ${readTable()} WHERE id = $1`, [id]);
+      return result.rows.length > 0 ? toRecord(result.rows[0]) : null;
+    },
+
+    async updateById(id, changes) {
+      const columns = Object.keys(changes);
+      const assignments = columns.map((column, i) => `${column} = $${i + 1}`).join(', ');
+      await requireClient().query(
+        `UPDATE test_data SET ${assignments} WHERE id = $${columns.length + 1}`,
+        [...columns.map((column) => changes[column as keyof typeof changes]), id]
+      );
+    },
+
+    async deleteById(id) {
+      await requireClient().query('DELETE FROM test_data WHERE id = $1', [id]);
+    },
+
+    async *scan(start, limit, pageSize) {
+      // Keyset pagination on (user_id, id): user_id is not unique, so the primary key breaks ties at page boundaries
+      let remaining = limit;
+      let result = await requireClient().query(
+        `SELECT * FROM test_data WHERE user_id >= $1 ORDER BY user_id, id LIMIT $2`,
+        [start ? start.user_id : Number.MIN_SAFE_INTEGER, Math.min(pageSize, remaining)]
+      );
+
+      while (result.rows.length > 0) {
+        const page = result.rows.map(toRecord);
+        yield page;
+        remaining -= page.length;
+        if (remaining <= 0) {
+          break;
+        }
+        const last = page[page.length - 1];
+        result = await requireClient().query(
+          `SELECT * FROM test_data WHERE (user_id, id) > ($1, $2) ORDER BY user_id, id LIMIT $3`,
+          [last.user_id, last.id, Math.min(pageSize, remaining)]
+        );
+      }
+    },
+
+    async truncate() {
+      await requireClient().query('TRUNCATE test_data');
+    },
+
+    async count() {
+      const result = await requireClient().query('SELECT COUNT(*) AS count FROM test_data');
+      return Number(result.rows[0].count);
+    },
+
+    async maxUserId() {
+      const result = await requireClient().query('SELECT MAX(user_id) AS max_user_id FROM test_data');
+      const max = result.rows[0].max_user_id;
+      return max === null ? null : Number(max);
+    },
+
+    async transferUnsupportedReason() {
+      return null;
+    },
+
+    async resetAccounts(count, initialBalance) {
+      const client = requireClient();
+      await client.query('CREATE TABLE IF NOT EXISTS accounts (id INT PRIMARY KEY, balance INT NOT NULL)');
+      await client.query('TRUNCATE accounts');
+      await client.query('INSERT INTO accounts (id, balance) SELECT i, $2 FROM generate_series(0, $1 - 1) AS i', [count, initialBalance]);
+    },
+
+    async transfer(from, to, amount) {
+      // A transaction must stay on one connection; restart it whenever CockroachDB reports a retryable error (40001)
+      const connection = await requireClient().connect();
+      try {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            await connection.query('BEGIN');
+            const debit = await connection.query(
+              'UPDATE accounts SET balance = balance - $2 WHERE id = $1 AND balance >= $2',
+              [from, amount]
+            );
+            if (debit.rowCount === 0) {
+              await connection.query('ROLLBACK');
+              return { committed: false, retries: attempt };
+            }
+            await connection.query('UPDATE accounts SET balance = balance + $2 WHERE id = $1', [to, amount]);
+            await connection.query('COMMIT');
+            return { committed: true, retries: attempt };
+          } catch (error: any) {
+            await connection.query('ROLLBACK').catch(() => undefined);
+            if (error.code !== '40001') {
+              throw error;
+            }
+            if (attempt >= MAX_TRANSFER_RETRIES) {
+              return { committed: false, retries: attempt };
+            }
+          }
+        }
+      } finally {
+        connection.release();
+      }
+    },
+
+    async checkAccounts() {
+      const result = await requireClient().query(
+        'SELECT COUNT(*) AS accounts, COALESCE(SUM(balance), 0) AS total, COUNT(*) FILTER (WHERE balance < 0) AS negative FROM accounts'
+      );
+      const row = result.rows[0];
+      return { accounts: Number(row.accounts), total: Number(row.total), negative: Number(row.negative) };
+    },
+
+    async resetCounters(count) {
+      const client = requireClient();
+      await client.query('CREATE TABLE IF NOT EXISTS hot_keys (id INT PRIMARY KEY, c INT NOT NULL DEFAULT 0)');
+      await client.query('TRUNCATE hot_keys');
+      await client.query('INSERT INTO hot_keys (id) SELECT generate_series(0, $1 - 1)', [count]);
+    },
+
+    async increment(id, strategy = 'increment') {
+      switch (strategy) {
+        case 'increment':
+          // Single-statement implicit transaction; CockroachDB retries conflicts server-side
+          await requireClient().query('UPDATE hot_keys SET c = c + 1 WHERE id = $1', [id]);
+          return 0;
+        case 'read-modify-write': {
+          const connection = await requireClient().connect();
+          try {
+            for (let attempt = 0; ; attempt++) {
+              try {
+                await connection.query('BEGIN');
+                const result = await connection.query('SELECT c FROM hot_keys WHERE id = $1', [id]);
+                await connection.query('UPDATE hot_keys SET c = $2 WHERE id = $1', [id, Number(result.rows[0].c) + 1]);
+                await connection.query('COMMIT');
+                return attempt;
+              } catch (error: any) {
+                await connection.query('ROLLBACK').catch(() => undefined);
+                if (error.code !== '40001' || attempt >= MAX_INCREMENT_RETRIES) {
+                  throw error;
+                }
+              }
+            }
+          } finally {
+            connection.release();
+          }
+        }
+        default:
+          throw new Error(`Unsupported CockroachDB increment strategy: ${strategy}`);
+      }
+    },
+
+    async readCounters(count) {
+      const values: number[] = new Array(count).fill(0);
+      const result = await requireClient().query('SELECT id, c FROM hot_keys');
+      result.rows.forEach((row) => {
+        values[Number(row.id)] = Number(row.c);
+      });
+      return values;
+    },
+
+    async close() {
+      await closeCockroachDB();
+    },
+  };
+}
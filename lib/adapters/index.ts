@@ -0,0 +1,36 @@
+import { ConnectionConfig, DatabaseAdapter, DatabaseType } from '../types';
+import { createCassandraAdapter } from './cassandra';
+import { createMongoAdapter } from './mongo';
+import { createCockroachAdapter } from './cockroach';
+
+/**
+ * Adapter registry - register a new engine here to make it available to every test
+ */
+const adapterFactories: Record<DatabaseType, () => DatabaseAdapter> = {
+  cassandra: createCassandraAdapter,
+  mongo: createMongoAdapter,
+  cockroach: createCockroachAdapter,
+};
+
+export const databaseTypes = Object.keys(adapterFactories) as DatabaseType[];
+
+/**
+ * Create the adapter for a database type
+ */
+export function createAdapter(dbType: DatabaseType): DatabaseAdapter {
+  const factory = adapterFactories[dbType];
+  if (!factory) {
+    throw new Error(`Unsupported database type: ${dbType}`);
+  }
+  return factory();
+}
+
+/**
+ * Create the adapter for a database type, connect it (with the given pool and consistency settings) and make sure the schema exists
+ */
+export async function connectAdapter(dbType: DatabaseType, config?: ConnectionConfig): Promise<DatabaseAdapter> {
+  const adapter = createAdapter(dbType);
+  await adapter.connect(config);
+  await adapter.ensureSchema();
+  return adapter;
+}
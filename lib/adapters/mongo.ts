@@ -0,0 +1,257 @@
+import { connectMongoDB, closeMongoDB, getMongoClient, getMongoConsistency, getMongoDB, getMongoPoolSettings } from '../dbConnectors';
+import { DatabaseAdapter, TestRecord } from '../types';
+
+interface Account {
+  id: number;
+  balance: number;
+}
+
+interface HotKey {
+  id: number;
+  c: number;
+}
+
+function requireCollection() {
+  const db = getMongoDB();
+  if (!db) {
+    throw new Error('MongoDB client not initialized');
+  }
+  return db.collection<TestRecord>('test_data');
+}
+
+function requireAccounts() {
+  const db = getMongoDB();
+  if (!db) {
+    throw new Error('MongoDB client not initialized');
+  }
+  return db.collection<Account>('accounts');
+}
+
+function requireHotKeys() {
+  const db = getMongoDB();
+  if (!db) {
+    throw new Error('MongoDB client not initialized');
+  }
+  return db.collection<HotKey>('hot_keys');
+}
+
+/**
+ * MongoDB adapter
+ */
+export function createMongoAdapter(): DatabaseAdapter {
+  return {
+    type: 'mongo',
+    displayName: 'MongoDB',
+
+    async connect(config) {
+      await connectMongoDB(config?.mongoMinPoolSize, config?.mongoMaxPoolSize, config?.consistencyProfiles.mongo);
+    },
+
+    poolSettings: getMongoPoolSettings,
+    consistencyProfile: getMongoConsistency,
+
+    async serverVersion() {
+      const db = getMongoDB();
+      if (!db) {
+        throw new Error('MongoDB client not initialized');
+      }
+      const info = await db.command({ buildInfo: 1 });
+      return info.version;
+    },
+
+    async ensureSchema() {
+      // MongoDB creates the collection on first insert, but we can ensure indexes
+      try {
+        await requireCollection().createIndex({ id: 1 }, { unique: true });
+        await requireCollection().createIndex({ user_id: 1 });
+      } catch (error: any) {
+        // Index might already exist, ignore error
+        if (!error.message.includes('already exists') && !error.message.includes('duplicate key')) {
+          console.warn('MongoDB index creation warning:', error.message);
+        }
+      }
+    },
+
+    async insertBatch(records, strategy = 'insert-many') {
+      // The driver mutates inserted documents by adding _id, so hand it copies
+      switch (strategy) {
+        case 'insert-many':
+          await requireCollection().insertMany(
+            records.map((record) => ({ ...record })),
+            { ordered: false }
+          );
+          return;
+        case 'bulk-write':
+          await requireCollection().bulkWrite(
+            records.map((record) => ({ insertOne: { document: { ...record } } })),
+            { ordered: false }
+          );
+          return;
+        default:
+          throw new Error(`Unsupported MongoDB write strategy: ${strategy}`);
+      }
+    },
+
+    async listKeys(limit) {
+      const docs = await requireCollection().find({}, { projection: { _id: 0, id: 1, user_id: 1 } }).limit(limit).toArray();
+      return docs.map((doc) => ({ id: doc.id, user_id: doc.user_id }));
+    },
+
+    async readById(id) {
+      return requireCollection().findOne({ id }, { projection: { _id: 0 } });
+    },
+
+    async updateById(id, changes) {
+      await requireCollection().updateOne({ id }, { $set: changes });
+    },
+
+    async deleteById(id) {
+      await requireCollection().deleteOne({ id });
+    },
+
+    async *scan(start, limit, pageSize) {
+      // One server-side cursor; batchSize makes each page a separate getMore round trip
+      const cursor = requireCollection()
+        .find(start ? { user_id: { $gte: start.user_id } } : {}, { projection: { _id: 0 } })
+        .sort({ user_id: 1 })
+        .limit(limit)
+        .batchSize(pageSize);
+
+      try {
+        let page: TestRecord[] = [];
+        for await (const record of cursor) {
+          page.push(record);
+          if (page.length === pageSize) {
+            yield page;
+            page = [];
+          }
+        }
+        if (page.length > 0) {
+          yield page;
+        }
+      } finally {
+        await cursor.close();
+      }
+    },
+
+    async truncate() {
+      await requireCollection().deleteMany({});
+    },
+
+    async count() {
+      return requireCollection().countDocuments();
+    },
+
+    async maxUserId() {
+      // Served by the user_id index
+      const doc = await requireCollection().find({}, { projection: { _id: 0, user_id: 1 } }).sort({ user_id: -1 }).limit(1).next();
+      return doc ? doc.user_id : null;
+    },
+
+    async transferUnsupportedReason() {
+      // Multi-document transactions need a replica set member or a mongos; a standalone server rejects them
+      const db = getMongoDB();
+      if (!db) {
+        throw new Error('MongoDB client not initialized');
+      }
+      const hello = await db.admin().command({ hello: 1 });
+      if (hello.setName || hello.msg === 'isdbgrid') {
+        return null;
+      }
+      return 'MongoDB is running standalone; multi-document transactions need a replica set or sharded cluster';
+    },
+
+    async resetAccounts(count, initialBalance) {
+      const accounts = requireAccounts();
+      await accounts.deleteMany({});
+      await accounts.createIndex({ id: 1 }, { unique: true });
+      await accounts.insertMany(Array.from({ length: count }, (_, id) => ({ id, balance: initialBalance })));
+    },
+
+    async transfer(from, to, amount) {
+      // Multi-document transactions need a replica set; withTransaction retries transient errors itself
+      const client = getMongoClient();
+      if (!client) {
+        throw new Error('MongoDB client not initialized');
+      }
+      const accounts = requireAccounts();
+      const session = client.startSession();
+      let attempts = 0;
+      let committed = false;
+
+      try {
+        await session.withTransaction(async () => {
+          attempts++;
+          committed = false;
+          const debit = await accounts.updateOne(
+            { id: from, balance: { $gte: amount } },
+            { $inc: { balance: -amount } },
+            { session }
+          );
+          if (debit.modifiedCount === 0) {
+            await session.abortTransaction();
+            return;
+          }
+          await accounts.updateOne({ id: to }, { $inc: { balance: amount } }, { session });
+          committed = true;
+        });
+      } finally {
+        await session.endSession();
+      }
+      return { committed, retries: Math.max(0, attempts - 1) };
+    },
+
+    async checkAccounts() {
+      const [summary] = await requireAccounts().aggregate<{ accounts: number; total: number; negative: number }>([
+        {
+          $group: {
+            _id: null,
+            accounts: { $sum: 1 },
+            total: { $sum: '$balance' },
+            negative: { $sum: { $cond: [{ $lt: ['$balance', 0] }, 1, 0] } },
+          },
+        },
+      ]).toArray();
+      return summary
+        ? { accounts: summary.accounts, total: summary.total, negative: summary.negative }
+        : { accounts: 0, total: 0, negative: 0 };
+    },
+
+    async resetCounters(count) {
+      const hotKeys = requireHotKeys();
+      await hotKeys.deleteMany({});
+      await hotKeys.createIndex({ id: 1 }, { unique: true });
+      await hotKeys.insertMany(Array.from({ length: count }, (_, id) => ({ id, c: 0 })));
+    },
+
+    async increment(id, strategy = 'inc') {
+      const hotKeys = requireHotKeys();
+      switch (strategy) {
+        case 'inc':
+          await hotKeys.updateOne({ id }, { $inc: { c: 1 } });
+          return 0;
+        case 'read-modify-write': {
+          // Deliberately unguarded: concurrent writers overwrite each other's increments
+          const doc = await hotKeys.findOne({ id });
+          await hotKeys.updateOne({ id }, { $set: { c: (doc?.c || 0) + 1 } });
+          return 0;
+        }
+        default:
+          throw new Error(`Unsupported MongoDB increment strategy: ${strategy}`);
+      }
+    },
+
+    async readCounters(count) {
+      const values: number[] = new Array(count).fill(0);
+      const docs = await requireHotKeys().find({}, { projection: { _id: 0 } }).toArray();
+      docs.forEach((doc) => {
+        values[doc.id] = doc.c;
+      });
+      return values;
+    },
+
+    async close() {
+      await closeMongoDB();
+    },
+  };
+}
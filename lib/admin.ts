@@ -0,0 +1,37 @@
+import { connectAdapter, databaseTypes } from './adapters';
+import { resetKeySpace } from './keySpace';
+import { RowCount } from './types';
+
+/**
+ * Count test_data rows on every engine; unreachable engines report their error instead
+ */
+export async function getRowCounts(): Promise<RowCount[]> {
+  return Promise.all(
+    databaseTypes.map(async (dbType): Promise<RowCount> => {
+      try {
+        const adapter = await connectAdapter(dbType);
+        return { database: adapter.displayName, count: await adapter.count() };
+      } catch (error: any) {
+        return { database: dbType, count: null, error: error.message };
+      }
+    })
+  );
+}
+
+/**
+ * Empty test_data on every engine and forget the tracked key spaces, then report the row counts
+ */
+export async function resetAllData(): Promise<RowCount[]> {
+  await Promise.all(
+    databaseTypes.map(async (dbType) => {
+      try {
+        const adapter = await connectAdapter(dbType);
+        await adapter.truncate();
+        resetKeySpace(dbType);
+      } catch (error) {
+        // Reported through getRowCounts below
+      }
+    })
+  );
+  return getRowCounts();
+}
@@ -0,0 +1,146 @@
+import { summarizeRun } from './history';
+import { differenceInterval95, mean } from './stats';
+import {
+  ChangeVerdict,
+  ComparedOperation,
+  ComparisonMetric,
+  ComparisonRow,
+  ConfigChange,
+  LatencyStats,
+  MetricDelta,
+  RunComparison,
+  RunRecord,
+  WorkloadConfig,
+} from './types';
+
+export const DEFAULT_REGRESSION_THRESHOLD = 10; // percent
+
+/**
+ * The measurements of one result row that runs are compared on
+ */
+interface Sample {
+  opsPerSec?: number;
+  timeTaken?: number;
+  latency?: LatencyStats;
+}
+
+const METRICS: { metric: ComparisonMetric; higherIsBetter: boolean; value: (sample: Sample) => number | undefined }[] = [
+  { metric: 'opsPerSec', higherIsBetter: true, value: (sample) => sample.opsPerSec },
+  { metric: 'timeTaken', higherIsBetter: false, value: (sample) => sample.timeTaken },
+  { metric: 'p50', higherIsBetter: false, value: (sample) => sample.latency?.p50 },
+  { metric: 'p95', higherIsBetter: false, value: (sample) => sample.latency?.p95 },
+  { metric: 'p99', higherIsBetter: false, value: (sample) => sample.latency?.p99 },
+];
+
+/**
+ * Successful results of a run grouped by engine and operation; repeat runs contribute one sample per iteration.
+ * YCSB mixes contribute their aggregate and one sample per operation they issued, timed over the whole mix.
+ */
+function groupSamples(run: RunRecord): Map<string, Sample[]> {
+  const groups = new Map<string, Sample[]>();
+  const add = (database: string, operation: ComparedOperation, sample: Sample) => {
+    const key = `${database}\u0000${operation}`;
+    groups.set(key, [...(groups.get(key) ?? []), sample]);
+  };
+
+  for (const result of run.results) {
+    if (result.error) continue;
+    add(result.database, result.operation, result);
+  }
+  for (const mix of run.mixResults ?? []) {
+    if (mix.error) continue;
+    add(mix.database, `ycsb-${mix.workload}`, mix);
+    for (const operation of mix.operations) {
+      add(mix.database, `ycsb-${mix.workload}/${operation.operation}`, {
+        opsPerSec: mix.timeTaken > 0 ? Math.round(((operation.count - operation.errors) / mix.timeTaken) * 1000) : undefined,
+        latency: operation.latency,
+      });
+    }
+  }
+  return groups;
+}
+
+function compareMetric(
+  { metric, higherIsBetter, value }: (typeof METRICS)[number],
+  baseResults: Sample[],
+  headResults: Sample[],
+  threshold: number
+): MetricDelta | null {
+  const baseValues = baseResults.map(value).filter((v): v is number => v !== undefined);
+  const headValues = headResults.map(value).filter((v): v is number => v !== undefined);
+  if (baseValues.length === 0 || headValues.length === 0) {
+    return null;
+  }
+
+  const base = mean(baseValues);
+  const head = mean(headValues);
+  const delta = head - base;
+  const deltaPercent = base !== 0 ? (delta / base) * 100 : null;
+  const interval = differenceInterval95(baseValues, headValues);
+
+  // Flag a change that exceeds the threshold, or that the samples show is real even if it is small
+  const beyondThreshold = deltaPercent !== null && Math.abs(deltaPercent) >= threshold;
+  const significant = interval !== null && (interval.low > 0 || interval.high < 0);
+  let verdict: ChangeVerdict = 'unchanged';
+  if (delta !== 0 && (beyondThreshold || significant)) {
+    verdict = (delta > 0) === higherIsBetter ? 'improvement' : 'regression';
+  }
+
+  return {
+    metric,
+    base,
+    head,
+    delta,
+    deltaPercent,
+    ...(interval ? { interval } : {}),
+    verdict,
+  };
+}
+
+function diffConfig(base: RunRecord, head: RunRecord): ConfigChange[] {
+  // Stored runs may predate a field, so both configs' keys are diffed
+  const fields = Array.from(new Set([...Object.keys(base.config), ...Object.keys(head.config)])) as (keyof WorkloadConfig)[];
+  return fields
+    .map((field) => ({
+      field,
+      base: JSON.stringify(base.config[field]) ?? 'undefined',
+      head: JSON.stringify(head.config[field]) ?? 'undefined',
+    }))
+    .filter((change) => change.base !== change.head);
+}
+
+/**
+ * Diff two stored runs per engine and operation and flag regressions and improvements
+ */
+export function compareRuns(base: RunRecord, head: RunRecord, threshold = DEFAULT_REGRESSION_THRESHOLD): RunComparison {
+  const baseGroups = groupSamples(base);
+  const headGroups = groupSamples(head);
+  const keys = Array.from(new Set([...Array.from(baseGroups.keys()), ...Array.from(headGroups.keys())]));
+
+  const rows: ComparisonRow[] = keys.map((key) => {
+    const [database, operation] = key.split('\u0000');
+    const baseResults = baseGroups.get(key) ?? [];
+    const headResults = headGroups.get(key) ?? [];
+    return {
+      database,
+      operation: operation as ComparedOperation,
+      baseSamples: baseResults.length,
+      headSamples: headResults.length,
+      metrics: METRICS
+        .map((metric) => compareMetric(metric, baseResults, headResults, threshold))
+        .filter((delta): delta is MetricDelta => delta !== null),
+    };
+  });
+
+  const verdicts = rows.flatMap((row) => row.metrics.map((metric) => metric.verdict));
+
+  return {
+    base: summarizeRun(base),
+    head: summarizeRun(head),
+    threshold,
+    configChanges: diffConfig(base, head),
+    rows,
+    regressions: verdicts.filter((verdict) => verdict === 'regression').length,
+    improvements: verdicts.filter((verdict) => verdict === 'improvement').length,
+  };
+}
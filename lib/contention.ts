@@ -0,0 +1,82 @@
+import { connectAdapter, createAdapter } from './adapters';
+import { createHistogram, measure, summarizeHistogram } from './histogram';
+import { createKeyChooser, createRandom } from './keyChooser';
+import { runBounded } from './loadGenerator';
+import { DEFAULT_WORKLOAD_CONFIG } from './workloadConfig';
+import { ContentionResult, DatabaseAdapter, DatabaseType, WorkloadConfig } from './types';
+
+/**
+ * Hot-key contention test: `operationCount` increments spread over `hotKeyCount` shared counters by
+ * `concurrency` workers, then the counters are read back to count lost (or duplicated) updates
+ */
+export async function runContentionWorkload(
+  dbType: DatabaseType,
+  config: WorkloadConfig = DEFAULT_WORKLOAD_CONFIG
+): Promise<ContentionResult> {
+  const histogram = createHistogram();
+  const strategy = config.incrementStrategies[dbType];
+  let adapter: DatabaseAdapter | undefined;
+  let startTime = Date.now();
+
+  try {
+    adapter = await connectAdapter(dbType, config);
+    const db = adapter;
+    await db.resetCounters(config.hotKeyCount, strategy);
+
+    const chooser = createKeyChooser(config.keyDistribution, createRandom(config.seed));
+    const keys = Array.from({ length: config.operationCount }, () => chooser.nextIndex(config.hotKeyCount));
+
+    let succeeded = 0;
+    let retries = 0;
+    let errors = 0;
+    let lastError: string | undefined;
+
+    startTime = Date.now();
+    await runBounded(keys.length, config.concurrency, async (index) => {
+      try {
+        retries += await measure(histogram, () => db.increment(keys[index], strategy));
+        succeeded++;
+      } catch (error: any) {
+        errors++;
+        lastError = error.message;
+      }
+    });
+    const timeTaken = Date.now() - startTime;
+
+    const counters = await db.readCounters(config.hotKeyCount, strategy);
+    const actualTotal = counters.reduce((sum, value) => sum + value, 0);
+
+    return {
+      database: db.displayName,
+      strategy,
+      hotKeys: config.hotKeyCount,
+      timeTaken,
+      increments: keys.length,
+      errors,
+      retries,
+      opsPerSec: timeTaken > 0 ? Math.round((succeeded / timeTaken) * 1000) : 0,
+      latency: summarizeHistogram(histogram),
+      expectedTotal: succeeded,
+      actualTotal,
+      lostUpdates: succeeded - actualTotal,
+      consistency: db.consistencyProfile(),
+      ...(errors > 0 ? { error: `${errors} increments failed: ${lastError}` } : {}),
+    };
+  } catch (error: any) {
+    return {
+      database: adapter?.displayName ?? createAdapter(dbType).displayName,
+      strategy,
+      hotKeys: config.hotKeyCount,
+      timeTaken: Date.now() - startTime,
+      increments: 0,
+      errors: 0,
+      retries: 0,
+      opsPerSec: 0,
+      latency: summarizeHistogram(histogram),
+      expectedTotal: 0,
+      actualTotal: 0,
+      lostUpdates: 0,
+      error: error.message,
+    };
+  }
+}
@@ -1,12 +1,47 @@
-import { Client as CassandraClient } from 'cassandra-driver';
-import { MongoClient, Db } from 'mongodb';
-import { Client as CockroachClient } from 'pg';
+import { Client as CassandraClient, types as cassandraTypes } from 'cassandra-driver';
+import { MongoClient, Db, DbOptions, ReadConcern, ReadPreference } from 'mongodb';
+import { Client as CockroachClient, Pool as CockroachPool } from 'pg';
+import { DEFAULT_WORKLOAD_CONFIG } from './workloadConfig';
+import { ConnectorSettings, ConsistencyProfile, PoolSettings } from './types';
 
 // Connection instances
 let cassandraClient: CassandraClient | null = null;
 let mongoClient: MongoClient | null = null;
 let mongoDb: Db | null = null;
-let cockroachClient: CockroachClient | null = null;
+let cockroachPool: CockroachPool | null = null;
+
+// Pool settings the current connection instances were created with
+let cassandraPoolSettings: PoolSettings = {};
+let mongoPoolSettings: PoolSettings = {};
+let cockroachPoolSettings: PoolSettings = {};
+
+// Consistency profiles the current connection instances apply
+let cassandraConsistency: ConsistencyProfile | undefined;
+let mongoConsistency: ConsistencyProfile | undefined;
+let cockroachConsistency: ConsistencyProfile | undefined;
+
+const cassandraConsistencyLevels: { [profile: string]: number } = {
+  one: cassandraTypes.consistencies.one,
+  quorum: cassandraTypes.consistencies.quorum,
+  all: cassandraTypes.consistencies.all,
+};
+
+const mongoDbOptions: { [profile: string]: DbOptions } = {
+  w1: { writeConcern: { w: 1, journal: false }, readConcern: new ReadConcern('local'), readPreference: ReadPreference.primary },
+  majority: { writeConcern: { w: 'majority', journal: true }, readConcern: new ReadConcern('majority'), readPreference: ReadPreference.primary },
+  // MongoDB's counterpart to follower reads: secondaries may lag, so reads can be stale; a standalone server reads from itself
+  'secondary-read': {
+    writeConcern: { w: 'majority', journal: true },
+    readConcern: new ReadConcern('local'),
+    readPreference: ReadPreference.secondaryPreferred,
+  },
+};
+
+const cockroachIsolationLevels: { [profile: string]: string } = {
+  serializable: 'SERIALIZABLE',
+  'read-committed': 'READ COMMITTED',
+  'follower-read': 'SERIALIZABLE', // follower reads change how reads are issued, not the isolation level
+};
 
 // Environment variables
 const CASSANDRA_HOST = process.env.CASSANDRA_HOST || 'localhost';
@@ -22,15 +57,24 @@ const COCKROACHDB_PORT = parseInt(process.env.COCKROACHDB_PORT || '26257');
 const COCKROACHDB_USER = process.env.COCKROACHDB_USER || 'root';
 const COCKROACHDB_PASSWORD = process.env.COCKROACHDB_PASSWORD || '';
 const COCKROACHDB_DATABASE = process.env.COCKROACHDB_DATABASE || 'test_db';
+const COCKROACHDB_HTTP_PORT = parseInt(process.env.COCKROACHDB_HTTP_PORT || '8080');
 const COCKROACHDB_SSL = process.env.COCKROACHDB_SSL === 'true';
+const cockroachSsl = COCKROACHDB_SSL ? { rejectUnauthorized: false } : false;
 
 /**
- * Initialize Cassandra connection
+ * Initialize Cassandra connection. An existing client is reused unless a different pool size or consistency profile is requested.
  */
-export async function connectCassandra(): Promise<CassandraClient> {
+export async function connectCassandra(coreConnectionsPerHost?: number, consistency?: ConsistencyProfile): Promise<CassandraClient> {
   if (cassandraClient) {
-    return cassandraClient;
+    const unchanged = (coreConnectionsPerHost === undefined || coreConnectionsPerHost === cassandraPoolSettings.coreConnectionsPerHost)
+      && (consistency === undefined || consistency === cassandraConsistency);
+    if (unchanged) {
+      return cassandraClient;
+    }
+    await closeCassandra();
   }
+  const coreConnections = coreConnectionsPerHost ?? DEFAULT_WORKLOAD_CONFIG.cassandraCoreConnectionsPerHost;
+  const profile = consistency ?? DEFAULT_WORKLOAD_CONFIG.consistencyProfiles.cassandra;
 
   try {
     // First connect without keyspace to create it
@@ -55,20 +99,18 @@ export async function connectCassandra(): Promise<CassandraClient> {
       contactPoints: [`${CASSANDRA_HOST}:${CASSANDRA_PORT}`],
       localDataCenter: CASSANDRA_DATACENTER,
       keyspace: CASSANDRA_KEYSPACE,
+      pooling: {
+        coreConnectionsPerHost: {
+          [cassandraTypes.distance.local]: coreConnections,
+          [cassandraTypes.distance.remote]: 1,
+        },
+      },
+      queryOptions: { consistency: cassandraConsistencyLevels[profile] },
     });
 
-    // Create table if it doesn't exist
-    await cassandraClient.execute(`
-      CREATE TABLE IF NOT EXISTS test_data (
-        id UUID PRIMARY KEY,
-        user_id INT,
-        name TEXT,
-        email TEXT,
-        age INT,
-        created_at TIMESTAMP,
-        data TEXT
-      )
-    `);
+    await cassandraClient.connect();
+    cassandraPoolSettings = { coreConnectionsPerHost: coreConnections };
+    cassandraConsistency = profile;
 
     console.log('Cassandra connected successfully');
     return cassandraClient;
@@ -79,42 +121,54 @@ export async function connectCassandra(): Promise<CassandraClient> {
 }
 
 /**
- * Initialize MongoDB connection
+ * Initialize MongoDB connection. An existing client is reused unless different pool bounds are requested;
+ * a different consistency profile only needs a new Db handle.
  */
-export async function connectMongoDB(): Promise<Db> {
+export async function connectMongoDB(minPoolSize?: number, maxPoolSize?: number, consistency?: ConsistencyProfile): Promise<Db> {
   if (mongoDb) {
-    return mongoDb;
+    const poolUnchanged = (minPoolSize === undefined || minPoolSize === mongoPoolSettings.minPoolSize)
+      && (maxPoolSize === undefined || maxPoolSize === mongoPoolSettings.maxPoolSize);
+    if (poolUnchanged && (consistency === undefined || consistency === mongoConsistency)) {
+      return mongoDb;
+    }
+    if (!poolUnchanged) {
+      await closeMongoDB();
+    }
   }
 
   if (!mongoClient) {
-    mongoClient = new MongoClient(MONGODB_URI);
-    await mongoClient.connect();
+    const poolSettings = {
+      minPoolSize: minPoolSize ?? DEFAULT_WORKLOAD_CONFIG.mongoMinPoolSize,
+      maxPoolSize: maxPoolSize ?? DEFAULT_WORKLOAD_CONFIG.mongoMaxPoolSize,
+    };
+    const client = new MongoClient(MONGODB_URI, poolSettings);
+    await client.connect();
+    mongoClient = client;
+    mongoPoolSettings = poolSettings;
   }
 
-  mongoDb = mongoClient.db(MONGODB_DB_NAME);
-
-  // Create collection if it doesn't exist (MongoDB creates it automatically on first insert)
-  // But we can ensure indexes
-  try {
-    await mongoDb.collection('test_data').createIndex({ id: 1 }, { unique: true });
-  } catch (error: any) {
-    // Index might already exist, ignore error
-    if (!error.message.includes('already exists') && !error.message.includes('duplicate key')) {
-      console.warn('MongoDB index creation warning:', error.message);
-    }
-  }
+  const profile = consistency ?? mongoConsistency ?? DEFAULT_WORKLOAD_CONFIG.consistencyProfiles.mongo;
+  mongoDb = mongoClient.db(MONGODB_DB_NAME, mongoDbOptions[profile]);
+  mongoConsistency = profile;
 
   console.log('MongoDB connected successfully');
   return mongoDb;
 }
 
 /**
- * Initialize CockroachDB connection
+ * Initialize the CockroachDB connection pool. An existing pool is reused unless a different size or consistency profile is requested.
  */
-export async function connectCockroachDB(): Promise<CockroachClient> {
-  if (cockroachClient) {
-    return cockroachClient;
+export async function connectCockroachDB(poolSize?: number, consistency?: ConsistencyProfile): Promise<CockroachPool> {
+  if (cockroachPool) {
+    const unchanged = (poolSize === undefined || poolSize === cockroachPoolSettings.max)
+      && (consistency === undefined || consistency === cockroachConsistency);
+    if (unchanged) {
+      return cockroachPool;
+    }
+    await closeCockroachDB();
   }
+  const max = poolSize ?? DEFAULT_WORKLOAD_CONFIG.cockroachPoolSize;
+  const profile = consistency ?? DEFAULT_WORKLOAD_CONFIG.consistencyProfiles.cockroach;
 
   try {
     // First connect to default database to create the target database
@@ -124,7 +178,7 @@ export async function connectCockroachDB(): Promise<CockroachClient> {
       user: COCKROACHDB_USER,
       password: COCKROACHDB_PASSWORD,
       database: 'defaultdb', // Default database in CockroachDB
-      ssl: COCKROACHDB_SSL ? { rejectUnauthorized: false } : false,
+      ssl: cockroachSsl,
     });
 
     await tempClient.connect();
@@ -141,33 +195,52 @@ export async function connectCockroachDB(): Promise<CockroachClient> {
 
     await tempClient.end();
 
-    // Now connect to the target database
-    cockroachClient = new CockroachClient({
+    // Now pool connections to the target database. Every pooled connection gets the profile's isolation level
+    // as a startup option, so a server that rejects it fails the connection instead of running under another level.
+    const isolation = cockroachIsolationLevels[profile];
+    const pool = new CockroachPool({
       host: COCKROACHDB_HOST,
       port: COCKROACHDB_PORT,
       user: COCKROACHDB_USER,
       password: COCKROACHDB_PASSWORD,
       database: COCKROACHDB_DATABASE,
-      ssl: COCKROACHDB_SSL ? { rejectUnauthorized: false } : false,
+      ssl: cockroachSsl,
+      max,
+      options: `-c default_transaction_isolation=${isolation.replace(/ /g, '\\ ')}`, // spaces in option values are escaped
     });
 
-    await cockroachClient.connect();
-
-    // Create table if it doesn't exist
-    await cockroachClient.query(`
-      CREATE TABLE IF NOT EXISTS test_data (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        user_id INT,
-        name TEXT,
-        email TEXT,
-        age INT,
-        created_at TIMESTAMP DEFAULT NOW(),
-        data TEXT
-      )
-    `);
+    // An idle connection that errors (e.g. the node restarts) is dropped by the pool; without a listener the error would crash the process
+    pool.on('error', (error) => {
+      console.error('CockroachDB idle connection error:', error);
+    });
+
+    // Check out one connection so connection errors surface here rather than on the first query, and read back
+    // the level CockroachDB actually applies: without sql.txn.read_committed_isolation.enabled (or on versions
+    // before 23.2) READ COMMITTED is silently upgraded to SERIALIZABLE, and results would carry the wrong profile
+    try {
+      const connection = await pool.connect();
+      try {
+        const { rows } = await connection.query('SHOW transaction_isolation');
+        const effective = String(Object.values(rows[0])[0]).toUpperCase();
+        if (effective !== isolation) {
+          throw new Error(
+            `CockroachDB runs ${effective} instead of ${isolation} for the ${profile} profile`
+            + (isolation === 'READ COMMITTED' ? ' (needs v23.2+ and sql.txn.read_committed_isolation.enabled = true)' : '')
+          );
+        }
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+    cockroachPool = pool;
+    cockroachPoolSettings = { max };
+    cockroachConsistency = profile;
 
     console.log('CockroachDB connected successfully');
-    return cockroachClient;
+    return cockroachPool;
   } catch (error) {
     console.error('CockroachDB connection error:', error);
     throw error;
@@ -175,26 +248,100 @@ export async function connectCockroachDB(): Promise<CockroachClient> {
 }
 
 /**
- * Close all database connections
+ * Open a dedicated CockroachDB connection to a scratch database (created if missing), outside the shared pool.
+ * The caller ends it.
  */
-export async function closeAllConnections(): Promise<void> {
+export async function connectCockroachSandbox(database: string): Promise<CockroachClient> {
+  const config = {
+    host: COCKROACHDB_HOST,
+    port: COCKROACHDB_PORT,
+    user: COCKROACHDB_USER,
+    password: COCKROACHDB_PASSWORD,
+    ssl: cockroachSsl,
+  };
+
+  const tempClient = new CockroachClient({ ...config, database: 'defaultdb' });
+  await tempClient.connect();
+  try {
+    await tempClient.query(`CREATE DATABASE ${database}`);
+  } catch (error: any) {
+    // Database already exists, ignore error
+    if (!error.message.includes('already exists')) {
+      throw error;
+    }
+  } finally {
+    await tempClient.end();
+  }
+
+  const client = new CockroachClient({ ...config, database });
+  await client.connect();
+  return client;
+}
+
+/**
+ * Endpoints and credentials the connectors use, for probes that must connect the same way (e.g. the security audit)
+ */
+export function getConnectorSettings(): ConnectorSettings {
+  return {
+    cassandra: { host: CASSANDRA_HOST, port: CASSANDRA_PORT, datacenter: CASSANDRA_DATACENTER },
+    mongo: { uri: MONGODB_URI },
+    cockroach: {
+      host: COCKROACHDB_HOST,
+      port: COCKROACHDB_PORT,
+      httpPort: COCKROACHDB_HTTP_PORT,
+      user: COCKROACHDB_USER,
+      password: COCKROACHDB_PASSWORD,
+      ssl: cockroachSsl,
+    },
+  };
+}
+
+/**
+ * Close Cassandra connection
+ */
+export async function closeCassandra(): Promise<void> {
   if (cassandraClient) {
     await cassandraClient.shutdown();
     cassandraClient = null;
+    cassandraPoolSettings = {};
+    cassandraConsistency = undefined;
   }
+}
 
+/**
+ * Close MongoDB connection
+ */
+export async function closeMongoDB(): Promise<void> {
   if (mongoClient) {
     await mongoClient.close();
     mongoClient = null;
     mongoDb = null;
+    mongoPoolSettings = {};
+    mongoConsistency = undefined;
   }
+}
 
-  if (cockroachClient) {
-    await cockroachClient.end();
-    cockroachClient = null;
+/**
+ * Close the CockroachDB connection pool
+ */
+export async function closeCockroachDB(): Promise<void> {
+  if (cockroachPool) {
+    await cockroachPool.end();
+    cockroachPool = null;
+    cockroachPoolSettings = {};
+    cockroachConsistency = undefined;
   }
 }
 
+/**
+ * Close all database connections
+ */
+export async function closeAllConnections(): Promise<void> {
+  await closeCassandra();
+  await closeMongoDB();
+  await closeCockroachDB();
+}
+
 /**
  * Get Cassandra client instance
  */
@@ -202,6 +349,13 @@ export function getCassandraClient(): CassandraClient | null {
   return cassandraClient;
 }
 
+/**
+ * Get MongoDB client instance (needed for sessions and transactions)
+ */
+export function getMongoClient(): MongoClient | null {
+  return mongoClient;
+}
+
 /**
  * Get MongoDB database instance
  */
@@ -210,9 +364,51 @@ export function getMongoDB(): Db | null {
 }
 
 /**
- * Get CockroachDB client instance
+ * Get CockroachDB connection pool instance
+ */
+export function getCockroachDBClient(): CockroachPool | null {
+  return cockroachPool;
+}
+
+/**
+ * Get the pool settings of the current Cassandra client
+ */
+export function getCassandraPoolSettings(): PoolSettings {
+  return cassandraPoolSettings;
+}
+
+/**
+ * Get the pool settings of the current MongoDB client
+ */
+export function getMongoPoolSettings(): PoolSettings {
+  return mongoPoolSettings;
+}
+
+/**
+ * Get the pool settings of the current CockroachDB pool
  */
-export function getCockroachDBClient(): CockroachClient | null {
-  return cockroachClient;
+export function getCockroachPoolSettings(): PoolSettings {
+  return cockroachPoolSettings;
 }
 
+
+/**
+ * Get the consistency profile of the current Cassandra client
+ */
+export function getCassandraConsistency(): ConsistencyProfile | undefined {
+  return cassandraConsistency;
+}
+
+/**
+ * Get the consistency profile of the current MongoDB database handle
+ */
+export function getMongoConsistency(): ConsistencyProfile | undefined {
+  return mongoConsistency;
+}
+
+/**
+ * Get the consistency profile of the current CockroachDB pool
+ */
+export function getCockroachConsistency(): ConsistencyProfile | undefined {
+  return cockroachConsistency;
+}
@@ -0,0 +1,35 @@
+/**
+ * Read a `data: {...}` server-sent event stream from a fetch response and
+ * hand every parsed event to `onEvent`. Resolves when the stream ends.
+ */
+export async function readEventStream(response: Response, onEvent: (data: any) => void): Promise<void> {
+  if (!response.ok) {
+    throw new Error((await response.json()).error);
+  }
+  if (!response.body) {
+    throw new Error('Response body is null');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        try {
+          onEvent(JSON.parse(line.slice(6)));
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { LatencyStats } from './types';
+
+// Each power-of-two range is split into 2^(SUB_BUCKET_BITS - 1) linear sub-buckets,
+// which keeps every recorded value within ~0.4% of its true value (HDR-style).
+const SUB_BUCKET_BITS = 8;
+const SUB_BUCKET_COUNT = 1 << SUB_BUCKET_BITS;
+const SUB_BUCKET_HALF = SUB_BUCKET_COUNT >> 1;
+
+/**
+ * Latency histogram - values are recorded in microseconds
+ */
+export interface Histogram {
+  counts: number[];
+  totalCount: number;
+  min: number;
+  max: number;
+  sum: number;
+  sumOfSquares: number;
+}
+
+export function createHistogram(): Histogram {
+  return {
+    counts: [],
+    totalCount: 0,
+    min: Number.POSITIVE_INFINITY,
+    max: 0,
+    sum: 0,
+    sumOfSquares: 0,
+  };
+}
+
+function bucketIndex(value: number): number {
+  if (value < SUB_BUCKET_COUNT) {
+    return value;
+  }
+  const shift = Math.floor(Math.log2(value)) - SUB_BUCKET_BITS + 1;
+  const subBucket = Math.floor(value / 2 ** shift);
+  return SUB_BUCKET_COUNT + (shift - 1) * SUB_BUCKET_HALF + (subBucket - SUB_BUCKET_HALF);
+}
+
+function highestValueInBucket(index: number): number {
+  if (index < SUB_BUCKET_COUNT) {
+    return index;
+  }
+  const offset = index - SUB_BUCKET_COUNT;
+  const shift = Math.floor(offset / SUB_BUCKET_HALF) + 1;
+  const subBucket = (offset % SUB_BUCKET_HALF) + SUB_BUCKET_HALF;
+  return (subBucket + 1) * 2 ** shift - 1;
+}
+
+/**
+ * Record a single latency value (microseconds)
+ */
+export function recordValue(histogram: Histogram, micros: number): void {
+  const value = Math.max(0, Math.round(micros));
+  const index = bucketIndex(value);
+  while (histogram.counts.length <= index) {
+    histogram.counts.push(0);
+  }
+  histogram.counts[index]++;
+  histogram.totalCount++;
+  histogram.min = Math.min(histogram.min, value);
+  histogram.max = Math.max(histogram.max, value);
+  histogram.sum += value;
+  histogram.sumOfSquares += value * value;
+}
+
+/**
+ * Merge the recorded values of `source` into `target`
+ */
+export function mergeHistogram(target: Histogram, source: Histogram): void {
+  while (target.counts.length < source.counts.length) {
+    target.counts.push(0);
+  }
+  source.counts.forEach((count, index) => {
+    target.counts[index] += count;
+  });
+  target.totalCount += source.totalCount;
+  target.min = Math.min(target.min, source.min);
+  target.max = Math.max(target.max, source.max);
+  target.sum += source.sum;
+  target.sumOfSquares += source.sumOfSquares;
+}
+
+/**
+ * Value (microseconds) at the given percentile (0-100)
+ */
+export function valueAtPercentile(histogram: Histogram, percentile: number): number {
+  if (histogram.totalCount === 0) {
+    return 0;
+  }
+  const target = Math.max(1, Math.ceil((percentile / 100) * histogram.totalCount));
+  let seen = 0;
+  for (let i = 0; i < histogram.counts.length; i++) {
+    seen += histogram.counts[i];
+    if (seen >= target) {
+      return Math.min(highestValueInBucket(i), histogram.max);
+    }
+  }
+  return histogram.max;
+}
+
+const toMillis = (micros: number) => Math.round(micros) / 1000;
+
+/**
+ * Summarize a histogram into millisecond latency statistics
+ */
+export function summarizeHistogram(histogram: Histogram): LatencyStats {
+  const count = histogram.totalCount;
+  if (count === 0) {
+    return { count: 0, min: 0, max: 0, mean: 0, stddev: 0, p50: 0, p95: 0, p99: 0, p999: 0 };
+  }
+  const mean = histogram.sum / count;
+  const variance = Math.max(0, histogram.sumOfSquares / count - mean * mean);
+
+  return {
+    count,
+    min: toMillis(histogram.min),
+    max: toMillis(histogram.max),
+    mean: toMillis(mean),
+    stddev: toMillis(Math.sqrt(variance)),
+    p50: toMillis(valueAtPercentile(histogram, 50)),
+    p95: toMillis(valueAtPercentile(histogram, 95)),
+    p99: toMillis(valueAtPercentile(histogram, 99)),
+    p999: toMillis(valueAtPercentile(histogram, 99.9)),
+  };
+}
+
+/**
+ * Time a single database call with a high-resolution clock and record it
+ */
+export async function measure<T>(histogram: Histogram, fn: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    return await fn();
+  } finally {
+    recordValue(histogram, Number(process.hrtime.bigint() - start) / 1000);
+  }
+}
@@ -0,0 +1,192 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { connectAdapter } from './adapters';
+import {
+  ContentionResult,
+  DatabaseType,
+  EngineVersion,
+  HostInfo,
+  RepeatTestResult,
+  RunKind,
+  RunRecord,
+  RunSummary,
+  SweepPoint,
+  TestResult,
+  TransferResult,
+  WorkloadConfig,
+  WorkloadMixResult,
+} from './types';
+
+// One JSON document per line, appended as runs complete
+const DATA_DIR = process.env.RESULTS_DIR || path.join(process.cwd(), 'data');
+const RUNS_FILE = path.join(DATA_DIR, 'runs.jsonl');
+
+let gitCommit: Promise<string | null> | null = null;
+
+/**
+ * Commit the server runs from; GIT_COMMIT wins for deployments without a .git directory
+ */
+function getGitCommit(): Promise<string | null> {
+  if (!gitCommit) {
+    gitCommit = process.env.GIT_COMMIT
+      ? Promise.resolve(process.env.GIT_COMMIT)
+      : promisify(execFile)('git', ['rev-parse', 'HEAD'], { cwd: process.cwd() })
+          .then(({ stdout }) => stdout.trim())
+          .catch(() => null);
+  }
+  return gitCommit;
+}
+
+function getHostInfo(): HostInfo {
+  const cpus = os.cpus();
+  return {
+    hostname: os.hostname(),
+    platform: os.platform(),
+    release: os.release(),
+    arch: os.arch(),
+    cpus: cpus.length,
+    cpuModel: cpus[0]?.model ?? 'unknown',
+    totalMemory: os.totalmem(),
+    nodeVersion: process.version,
+  };
+}
+
+/**
+ * Ask every engine that took part in a run for its server version
+ */
+async function getEngineVersions(databases: DatabaseType[]): Promise<EngineVersion[]> {
+  return Promise.all(
+    databases.map(async (dbType): Promise<EngineVersion> => {
+      try {
+        const adapter = await connectAdapter(dbType);
+        return { database: adapter.displayName, version: await adapter.serverVersion() };
+      } catch (error: any) {
+        return { database: dbType, version: null, error: error.message };
+      }
+    })
+  );
+}
+
+async function readRuns(): Promise<RunRecord[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(RUNS_FILE, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const runs: RunRecord[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line));
+    } catch (error) {
+      // A line cut short by a crash mid-append; skip it rather than losing the whole history
+      console.warn('Skipping unreadable run history line');
+    }
+  }
+  return runs;
+}
+
+/**
+ * Result rows of a run; scenario runs also carry the scenario name
+ */
+export interface RunRows {
+  scenario?: string;
+  results?: TestResult[];
+  repeatResults?: RepeatTestResult[];
+  mixResults?: WorkloadMixResult[];
+  sweepPoints?: SweepPoint[];
+  transferResults?: TransferResult[];
+  contentionResults?: ContentionResult[];
+}
+
+/**
+ * Persist a finished run with its metadata; returns the run ID
+ */
+export async function saveRun(
+  kind: RunKind,
+  config: WorkloadConfig,
+  databases: DatabaseType[],
+  rows: RunRows
+): Promise<string> {
+  const run: RunRecord = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    kind,
+    gitCommit: await getGitCommit(),
+    config,
+    engines: await getEngineVersions(databases),
+    host: getHostInfo(),
+    ...(rows.scenario ? { scenario: rows.scenario } : {}),
+    results: rows.results ?? [],
+    repeatResults: rows.repeatResults ?? [],
+    ...(rows.mixResults ? { mixResults: rows.mixResults } : {}),
+    ...(rows.sweepPoints ? { sweepPoints: rows.sweepPoints } : {}),
+    ...(rows.transferResults ? { transferResults: rows.transferResults } : {}),
+    ...(rows.contentionResults ? { contentionResults: rows.contentionResults } : {}),
+  };
+
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.appendFile(RUNS_FILE, JSON.stringify(run) + '\n');
+  return run.id;
+}
+
+/**
+ * Persist a run without letting a storage failure fail the run itself; returns the run ID when it was stored
+ */
+export async function recordRun(
+  kind: RunKind,
+  config: WorkloadConfig,
+  databases: DatabaseType[],
+  rows: RunRows
+): Promise<string | undefined> {
+  try {
+    return await saveRun(kind, config, databases, rows);
+  } catch (error) {
+    console.error('Run history write error:', error);
+    return undefined;
+  }
+}
+
+/**
+ * A run's metadata without its result rows; resultCount covers the rows of every workload kind
+ */
+export function summarizeRun(run: RunRecord): RunSummary {
+  const { id, timestamp, kind, gitCommit, engines, scenario, results, repeatResults } = run;
+  return {
+    id,
+    timestamp,
+    kind,
+    gitCommit,
+    engines,
+    ...(scenario ? { scenario } : {}),
+    resultCount: results.length
+      + (run.mixResults?.length ?? 0)
+      + (run.sweepPoints?.length ?? 0)
+      + (run.transferResults?.length ?? 0)
+      + (run.contentionResults?.length ?? 0),
+    repeatResultCount: repeatResults.length,
+  };
+}
+
+/**
+ * Stored runs, newest first, without their result rows
+ */
+export async function listRuns(limit?: number): Promise<RunSummary[]> {
+  return (await readRuns()).reverse().slice(0, limit).map(summarizeRun);
+}
+
+/**
+ * A stored run with all of its result rows
+ */
+export async function getRun(id: string): Promise<RunRecord | null> {
+  return (await readRuns()).find((run) => run.id === id) ?? null;
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { runScenario } from './scenarioRunner';
+import { JobKind, JobSummary, Scenario } from './types';
+
+export interface JobEvent {
+  id: number; // increasing within a job, sent as the SSE event ID
+  data: Record<string, unknown>;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+interface Job {
+  summary: JobSummary;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+  release: () => void; // gives up the run lock
+}
+
+// Finished jobs kept for late subscribers; older ones are dropped
+const MAX_FINISHED_JOBS = 20;
+
+const jobs = new Map<string, Job>();
+
+// Who holds the databases: a job, or an endpoint running its test inline. Engines share their test tables and
+// connections, and a run asking for other pool or consistency settings reconnects them, so runs never overlap.
+let activeRun: string | null = null;
+
+/**
+ * Claim the databases for a run. Returns the function that releases them, or undefined while another run holds them.
+ */
+export function acquireRunLock(owner: string): (() => void) | undefined {
+  if (activeRun) {
+    return undefined;
+  }
+  activeRun = owner;
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      activeRun = null;
+    }
+  };
+}
+
+/**
+ * The run holding the databases, if any
+ */
+export function getActiveRun(): string | null {
+  return activeRun;
+}
+
+function emit(job: Job, data: Record<string, unknown>): void {
+  const event = { id: job.events.length + 1, data };
+  job.events.push(event);
+  job.summary.lastEventId = event.id;
+  job.listeners.forEach((listener) => listener(event));
+}
+
+function finish(job: Job, state: JobSummary['state'], data: Record<string, unknown>): void {
+  job.summary.state = state;
+  job.summary.finishedAt = new Date().toISOString();
+  emit(job, data);
+  job.listeners.clear();
+  job.release();
+
+  const finished = Array.from(jobs.values()).filter((other) => other.summary.state !== 'running');
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach((old) => jobs.delete(old.summary.id));
+}
+
+/**
+ * The job currently running, if any
+ */
+export function getRunningJob(): JobSummary | undefined {
+  return Array.from(jobs.values()).find((job) => job.summary.state === 'running')?.summary;
+}
+
+/**
+ * Start a scenario in the background and return immediately; progress is published as job events
+ */
+export function startJob(kind: JobKind, scenario: Scenario): JobSummary {
+  const id = randomUUID();
+  const release = acquireRunLock(`Job ${id}`);
+  if (!release) {
+    throw new Error(`${activeRun} is already running`);
+  }
+
+  const job: Job = {
+    summary: {
+      id,
+      kind,
+      scenario: scenario.name,
+      state: 'running',
+      cancelRequested: false,
+      createdAt: new Date().toISOString(),
+      lastEventId: 0,
+    },
+    events: [],
+    listeners: new Set(),
+    controller: new AbortController(),
+    release,
+  };
+  jobs.set(job.summary.id, job);
+
+  const { signal } = job.controller;
+  runScenario(scenario, { onStatus: (status) => emit(job, { ...status }), signal, kind })
+    .then((result) => {
+      job.summary.runId = result.runId;
+      finish(job, 'completed', { type: 'complete', ...result });
+    })
+    .catch((error: any) => {
+      if (signal.aborted) {
+        finish(job, 'cancelled', { type: 'cancelled', message: 'Test iptal edildi' });
+      } else {
+        job.summary.error = error.message;
+        finish(job, 'failed', { type: 'error', error: error.message });
+      }
+    });
+
+  return job.summary;
+}
+
+/**
+ * Request cancellation: no new operation starts and batches in flight are aborted once their calls settle
+ */
+export function cancelJob(id: string): JobSummary | undefined {
+  const job = jobs.get(id);
+  if (job && job.summary.state === 'running' && !job.summary.cancelRequested) {
+    job.summary.cancelRequested = true;
+    job.controller.abort(new Error('Job cancelled'));
+  }
+  return job?.summary;
+}
+
+export function getJob(id: string): JobSummary | undefined {
+  return jobs.get(id)?.summary;
+}
+
+/**
+ * Jobs still held in memory, newest first
+ */
+export function listJobs(): JobSummary[] {
+  return Array.from(jobs.values())
+    .map((job) => job.summary)
+    .reverse();
+}
+
+/**
+ * Replay the events after `afterEventId`, then deliver new ones until the job finishes.
+ * Returns an unsubscribe function, or undefined for an unknown job.
+ */
+export function subscribe(id: string, afterEventId: number, listener: JobListener): (() => void) | undefined {
+  const job = jobs.get(id);
+  if (!job) {
+    return undefined;
+  }
+
+  job.events.filter((event) => event.id > afterEventId).forEach(listener);
+  if (job.summary.state !== 'running') {
+    return () => undefined;
+  }
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
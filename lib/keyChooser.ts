@@ -0,0 +1,111 @@
+import { KeyDistribution } from './types';
+
+const ZIPFIAN_CONSTANT = 0.99;
+const HOTSPOT_DATA_FRACTION = 0.2;
+const HOTSPOT_OPERATION_FRACTION = 0.8;
+
+export type Random = () => number;
+
+/**
+ * Deterministic PRNG (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks an index into a key space of `itemCount` keys ordered oldest to newest.
+ * The key space may grow between calls (inserts during a run).
+ */
+export interface KeyChooser {
+  nextIndex(itemCount: number): number;
+}
+
+/**
+ * Zipfian generator after Gray et al. "Quickly Generating Billion-Record Synthetic
+ * Databases", as used by YCSB. Item 0 is the most popular.
+ */
+function createZipfian(random: Random, theta = ZIPFIAN_CONSTANT) {
+  const alpha = 1 / (1 - theta);
+  const zeta2 = 1 + 0.5 ** theta;
+  let n = 0;
+  let zetan = 0;
+
+  return (itemCount: number): number => {
+    if (itemCount <= 1) return 0;
+    if (itemCount < n) {
+      n = 0;
+      zetan = 0;
+    }
+    // zeta(n) is extended incrementally as the key space grows
+    for (let i = n + 1; i <= itemCount; i++) {
+      zetan += 1 / i ** theta;
+    }
+    n = itemCount;
+
+    const eta = (1 - (2 / n) ** (1 - theta)) / (1 - zeta2 / zetan);
+    const u = random();
+    const uz = u * zetan;
+    if (uz < 1) return 0;
+    if (uz < zeta2) return 1;
+    return Math.min(n - 1, Math.floor(n * (eta * u - eta + 1) ** alpha));
+  };
+}
+
+// FNV-1a over the four bytes of a 32-bit integer
+function fnvHash(value: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < 4; i++) {
+    hash ^= (value >>> (i * 8)) & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a key chooser for the given distribution
+ */
+export function createKeyChooser(distribution: KeyDistribution, random: Random): KeyChooser {
+  switch (distribution) {
+    case 'sequential': {
+      let next = 0;
+      return { nextIndex: (itemCount) => next++ % itemCount };
+    }
+
+    case 'uniform':
+      return { nextIndex: (itemCount) => Math.floor(random() * itemCount) };
+
+    case 'zipfian': {
+      // Scrambled so the popular keys are spread over the whole key space instead of the oldest records
+      const zipfian = createZipfian(random);
+      return { nextIndex: (itemCount) => fnvHash(zipfian(itemCount)) % itemCount };
+    }
+
+    case 'hotspot':
+      return {
+        nextIndex: (itemCount) => {
+          const hotCount = Math.max(1, Math.floor(itemCount * HOTSPOT_DATA_FRACTION));
+          if (random() < HOTSPOT_OPERATION_FRACTION || hotCount === itemCount) {
+            return Math.floor(random() * hotCount);
+          }
+          return hotCount + Math.floor(random() * (itemCount - hotCount));
+        },
+      };
+
+    case 'latest': {
+      // Newest keys are the most popular
+      const zipfian = createZipfian(random);
+      return { nextIndex: (itemCount) => itemCount - 1 - zipfian(itemCount) };
+    }
+
+    default:
+      throw new Error(`Unsupported key distribution: ${distribution}`);
+  }
+}
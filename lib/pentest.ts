@@ -1,112 +1,324 @@
-import { getCockroachDBClient, getMongoDB } from './dbConnectors';
+import { connectCassandra, connectCockroachSandbox, connectMongoDB, getMongoClient } from './dbConnectors';
+import { PAYLOAD_CORPUS } from './payloads';
+import { InjectionInput, InjectionLabResult, InjectionMatrix, InjectionOutcome, InjectionPayload, QueryMode } from './types';
+
+// Scratch database (keyspace in Cassandra) the lab runs in; the vulnerable builders never see test_data
+export const SANDBOX_DATABASE = 'pentest_sandbox';
+// Stacked and UNION payloads in payloads.ts name this table
+const SANDBOX_TABLE = 'pentest_users';
+
+interface SandboxUser {
+  id: number;
+  username: string;
+  password: string;
+  secret: string;
+}
+
+// Seeded before a payload runs whenever the previous one changed the sandbox
+const SANDBOX_USERS: SandboxUser[] = [
+  { id: 1, username: 'admin', password: 'Adm1n!sandbox', secret: 'root-api-key' },
+  { id: 2, username: 'alice', password: 'alice-sandbox', secret: 'alice-card-4111' },
+  { id: 3, username: 'bob', password: 'bob-sandbox', secret: 'bob-ssn-078' },
+];
 
 /**
- * Simulate SQL Injection attempt on CockroachDB
- * This demonstrates how parameterized queries protect against SQL injection
+ * One engine's sandbox table or collection with a deliberately vulnerable and a safe builder for each query.
+ * `login` checks credentials (payloads with a password), `lookup` fetches a user's secret by name.
  */
-export async function simulateSQLInjection(userInput: string): Promise<{
-  vulnerable: boolean;
-  result: any;
-  message: string;
-}> {
-  const client = getCockroachDBClient();
-  if (!client) {
-    throw new Error('CockroachDB client not initialized');
-  }
+interface InjectionSandbox {
+  reset(): Promise<void>;
+  login(mode: QueryMode, input: InjectionInput): Promise<unknown[]>;
+  lookup(mode: QueryMode, input: InjectionInput): Promise<unknown[]>;
+  rejectInput?(input: InjectionInput): string | undefined; // why the safe builders refuse an input before querying
+  snapshot(): Promise<SandboxUser[] | null>; // null once the table or collection is gone
+  close(): Promise<void>;
+}
+
+/**
+ * CockroachDB sandbox on its own connection and database. The vulnerable builders concatenate input into the
+ * statement; without bind parameters pg uses the simple query protocol, which also runs stacked statements.
+ */
+async function createCockroachSandbox(): Promise<InjectionSandbox> {
+  const client = await connectCockroachSandbox(SANDBOX_DATABASE);
+
+  // A stacked query returns one result per statement
+  const rowsOf = (result: any): unknown[] => (Array.isArray(result) ? result.flatMap((r) => r.rows ?? []) : result.rows);
+
+  return {
+    async reset() {
+      await client.query(`DROP TABLE IF EXISTS ${SANDBOX_TABLE}`);
+      await client.query(`CREATE TABLE ${SANDBOX_TABLE} (id INT PRIMARY KEY, username STRING NOT NULL, password STRING NOT NULL, secret STRING NOT NULL)`);
+      for (const user of SANDBOX_USERS) {
+        await client.query(
+          `INSERT INTO ${SANDBOX_TABLE} (id, username, password, secret) VALUES ($1, $2, $3, $4)`,
+          [user.id, user.username, user.password, user.secret]
+        );
+      }
+    },
+    async login(mode, { username, password = '' }) {
+      if (mode === 'vulnerable') {
+        return rowsOf(await client.query(`SELECT id, username FROM ${SANDBOX_TABLE} WHERE username = '${username}' AND password = '${password}'`));
+      }
+      return rowsOf(await client.query(`SELECT id, username FROM ${SANDBOX_TABLE} WHERE username = $1 AND password = $2`, [username, password]));
+    },
+    async lookup(mode, { username }) {
+      if (mode === 'vulnerable') {
+        return rowsOf(await client.query(`SELECT username, secret FROM ${SANDBOX_TABLE} WHERE username = '${username}'`));
+      }
+      return rowsOf(await client.query(`SELECT username, secret FROM ${SANDBOX_TABLE} WHERE username = $1`, [username]));
+    },
+    async snapshot() {
+      try {
+        const result = await client.query(`SELECT id, username, password, secret FROM ${SANDBOX_TABLE}`);
+        // INT columns are INT8 in CockroachDB, which pg returns as strings
+        return result.rows.map((row) => ({ ...row, id: Number(row.id) }));
+      } catch (error: any) {
+        if (error.code === '42P01') { // undefined_table
+          return null;
+        }
+        throw error;
+      }
+    },
+    async close() {
+      await client.end();
+    },
+  };
+}
 
+/**
+ * Cassandra sandbox in its own keyspace on the shared client. CQL has no OR, UNION or stacked statements,
+ * but the vulnerable builders still concatenate input, so comments and extra restrictions inject.
+ */
+async function createCassandraSandbox(): Promise<InjectionSandbox> {
+  const client = await connectCassandra();
+  const table = `${SANDBOX_DATABASE}.${SANDBOX_TABLE}`;
+  await client.execute(`
+    CREATE KEYSPACE IF NOT EXISTS ${SANDBOX_DATABASE}
+    WITH replication = {
+      'class': 'SimpleStrategy',
+      'replication_factor': 1
+    }
+  `);
+
+  return {
+    async reset() {
+      // Schema changes are slow in Cassandra, so the table is created once and truncated afterwards
+      await client.execute(`CREATE TABLE IF NOT EXISTS ${table} (username TEXT PRIMARY KEY, id INT, password TEXT, secret TEXT)`);
+      await client.execute(`TRUNCATE ${table}`);
+      for (const user of SANDBOX_USERS) {
+        await client.execute(
+          `INSERT INTO ${table} (username, id, password, secret) VALUES (?, ?, ?, ?)`,
+          [user.username, user.id, user.password, user.secret],
+          { prepare: true }
+        );
+      }
+    },
+    async login(mode, { username, password = '' }) {
+      const result = mode === 'vulnerable'
+        ? await client.execute(`SELECT id, username FROM ${table} WHERE username = '${username}' AND password = '${password}' ALLOW FILTERING`)
+        : await client.execute(`SELECT id, username FROM ${table} WHERE username = ? AND password = ? ALLOW FILTERING`, [username, password], { prepare: true });
+      return result.rows;
+    },
+    async lookup(mode, { username }) {
+      const result = mode === 'vulnerable'
+        ? await client.execute(`SELECT username, secret FROM ${table} WHERE username = '${username}'`)
+        : await client.execute(`SELECT username, secret FROM ${table} WHERE username = ?`, [username], { prepare: true });
+      return result.rows;
+    },
+    async snapshot() {
+      const exists = await client.execute(
+        'SELECT table_name FROM system_schema.tables WHERE keyspace_name = ? AND table_name = ?',
+        [SANDBOX_DATABASE, SANDBOX_TABLE],
+        { prepare: true }
+      );
+      if (exists.rowLength === 0) {
+        return null;
+      }
+      const result = await client.execute(`SELECT id, username, password, secret FROM ${table}`);
+      return result.rows.map((row) => ({ id: row.id, username: row.username, password: row.password, secret: row.secret }));
+    },
+    async close() {
+      // The client is shared with the benchmarks and stays open
+    },
+  };
+}
+
+/**
+ * Request fields as a JSON body parser delivers them: `{"$ne": null}` or `["a"]` arrives as an object or array, not a string
+ */
+function decodeField(value: string): unknown {
   try {
-    // VULNERABLE WAY (DO NOT USE IN PRODUCTION) - Direct string interpolation
-    // This would be vulnerable: `SELECT * FROM test_data WHERE name = '${userInput}'`
-    
-    // SAFE WAY - Using parameterized queries
-    // Even if userInput contains SQL injection code like: "'; DROP TABLE test_data; --"
-    // The parameterized query will treat it as a literal string value
-    
-    const safeQuery = 'SELECT * FROM test_data WHERE name = $1 LIMIT 10';
-    const result = await client.query(safeQuery, [userInput]);
-
-    return {
-      vulnerable: false,
-      result: result.rows,
-      message: 'Parameterized query protected against SQL injection. The malicious input was treated as a literal string value.',
-    };
-  } catch (error: any) {
-    return {
-      vulnerable: false,
-      result: null,
-      message: `Error: ${error.message}. The parameterized query prevented execution of malicious code.`,
-    };
+    const decoded = JSON.parse(value);
+    return typeof decoded === 'object' && decoded !== null ? decoded : value;
+  } catch {
+    return value;
   }
 }
 
 /**
- * Simulate NoSQL Injection attempt on MongoDB
- * This demonstrates how parameterized queries protect against NoSQL injection
+ * MongoDB sandbox in its own database on the shared client. The vulnerable login concatenates input into a
+ * $where JavaScript expression; the vulnerable lookup puts the decoded field straight into the filter, so operator
+ * objects reach the driver. The safe builders accept strings only and match them with $eq.
  */
-export async function simulateNoSQLInjection(userInput: string): Promise<{
-  vulnerable: boolean;
-  result: any;
-  message: string;
-}> {
-  const db = getMongoDB();
-  if (!db) {
+async function createMongoSandbox(): Promise<InjectionSandbox> {
+  await connectMongoDB();
+  const client = getMongoClient();
+  if (!client) {
     throw new Error('MongoDB client not initialized');
   }
+  const db = client.db(SANDBOX_DATABASE);
+  const collection = db.collection<{ _id: number; username: string; password: string; secret: string }>(SANDBOX_TABLE);
 
-  try {
-    const collection = db.collection('test_data');
-
-    // VULNERABLE WAY (DO NOT USE IN PRODUCTION) - Direct object construction
-    // This would be vulnerable: collection.find({ name: userInput })
-    // If userInput is: { $ne: null } or { $gt: "" }, it could bypass filters
-    
-    // SAFE WAY - Using explicit query construction
-    // Even if userInput contains MongoDB operators like: { $ne: null }
-    // We explicitly construct the query object
-    
-    const safeQuery = { name: userInput };
-    const result = await collection.find(safeQuery).limit(10).toArray();
-
-    // Additional protection: Validate userInput is a string
-    if (typeof userInput !== 'string') {
-      return {
-        vulnerable: false,
-        result: null,
-        message: 'Input validation prevented NoSQL injection. Expected string type.',
-      };
-    }
+  return {
+    async reset() {
+      await collection.drop().catch(() => undefined); // missing after a previous drop
+      await collection.insertMany(SANDBOX_USERS.map(({ id, ...user }) => ({ _id: id, ...user })));
+    },
+    async login(mode, { username, password = '' }) {
+      const filter = mode === 'vulnerable'
+        ? { $where: `this.username == '${username}' && this.password == '${password}'` }
+        : { username: { $eq: username }, password: { $eq: password } };
+      return collection.find(filter).project({ username: 1 }).toArray();
+    },
+    async lookup(mode, { username }) {
+      const filter = mode === 'vulnerable'
+        ? { username: decodeField(username) }
+        : { username: { $eq: username } };
+      return collection.find(filter as any).project({ username: 1, secret: 1 }).toArray();
+    },
+    rejectInput({ username, password }) {
+      const fields = { username, ...(password !== undefined ? { password } : {}) };
+      const invalid = Object.entries(fields).filter(([, value]) => typeof decodeField(value) !== 'string');
+      return invalid.length > 0 ? `${invalid.map(([name]) => name).join(', ')} must be a string` : undefined;
+    },
+    async snapshot() {
+      const exists = await db.listCollections({ name: SANDBOX_TABLE }).hasNext();
+      if (!exists) {
+        return null;
+      }
+      const documents = await collection.find().toArray();
+      return documents.map(({ _id, ...user }) => ({ id: _id, ...user }));
+    },
+    async close() {
+      // The client is shared with the benchmarks and stays open
+    },
+  };
+}
+
+const LABS: { database: string; create: () => Promise<InjectionSandbox> }[] = [
+  { database: 'Cassandra', create: createCassandraSandbox },
+  { database: 'MongoDB', create: createMongoSandbox },
+  { database: 'CockroachDB', create: createCockroachSandbox },
+];
 
-    return {
-      vulnerable: false,
-      result,
-      message: 'Explicit query construction and input validation protected against NoSQL injection.',
-    };
-  } catch (error: any) {
-    return {
-      vulnerable: false,
-      result: null,
-      message: `Error: ${error.message}. The query construction prevented execution of malicious code.`,
-    };
+/**
+ * Compare the sandbox after a query with the seeded users
+ */
+function damage(rows: SandboxUser[] | null): Pick<InjectionOutcome, 'tableDropped' | 'rowsRemoved' | 'rowsAltered'> {
+  if (rows === null) {
+    return { tableDropped: true, rowsRemoved: SANDBOX_USERS.length, rowsAltered: 0 };
   }
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const seededIds = new Set(SANDBOX_USERS.map((user) => user.id));
+  const changed = (user: SandboxUser) => {
+    const row = byId.get(user.id);
+    return row !== undefined && (row.username !== user.username || row.password !== user.password || row.secret !== user.secret);
+  };
+
+  return {
+    tableDropped: false,
+    rowsRemoved: SANDBOX_USERS.filter((user) => !byId.has(user.id)).length,
+    rowsAltered: SANDBOX_USERS.filter(changed).length + rows.filter((row) => !seededIds.has(row.id)).length,
+  };
 }
 
 /**
- * Demonstrate injection attack attempt
+ * Run one payload through one builder on a seeded sandbox and measure what it returned and what it changed
  */
-export async function demonstrateInjectionProtection(): Promise<{
-  sqlInjection: any;
-  nosqlInjection: any;
-}> {
-  // Simulate malicious input
-  const maliciousSQLInput = "'; DROP TABLE test_data; --";
-  const maliciousNoSQLInput = { $ne: null };
+async function measure(sandbox: InjectionSandbox, { input }: InjectionPayload, mode: QueryMode): Promise<InjectionOutcome> {
+  const isLogin = input.password !== undefined;
+  const rejected = mode === 'safe' ? sandbox.rejectInput?.(input) : undefined;
 
-  const sqlResult = await simulateSQLInjection(maliciousSQLInput);
-  const nosqlResult = await simulateNoSQLInjection(JSON.stringify(maliciousNoSQLInput));
+  let rows: unknown[] = [];
+  let error: string | undefined;
+  if (!rejected) {
+    try {
+      rows = isLogin ? await sandbox.login(mode, input) : await sandbox.lookup(mode, input);
+    } catch (queryError: any) {
+      error = queryError.message;
+    }
+  }
+
+  // Ground truth: what an exact match on the literal input would return
+  const expectedRows = SANDBOX_USERS.filter((user) =>
+    user.username === input.username && (!isLogin || user.password === input.password)
+  ).length;
+  const leakedRows = Math.max(0, rows.length - expectedRows);
+  const authBypassed = isLogin && rows.length > 0 && expectedRows === 0;
+  const changes = damage(await sandbox.snapshot());
+  const exploited = leakedRows > 0 || authBypassed || changes.tableDropped || changes.rowsRemoved > 0 || changes.rowsAltered > 0;
 
   return {
-    sqlInjection: sqlResult,
-    nosqlInjection: nosqlResult,
+    mode,
+    verdict: exploited ? 'exploited' : error ? 'errored' : 'blocked',
+    rowsReturned: rows.length,
+    expectedRows,
+    leakedRows,
+    authBypassed,
+    ...changes,
+    exploited,
+    ...(rejected ? { rejected } : {}),
+    ...(error ? { error } : {}),
   };
 }
 
+/**
+ * Send every payload in the corpus through the vulnerable and the safe query builder of each engine's sandbox
+ * and report the measured outcome of each payload x engine pair
+ */
+export async function runInjectionLab(): Promise<InjectionMatrix> {
+  const results: InjectionLabResult[] = [];
+
+  for (const lab of LABS) {
+    let sandbox: InjectionSandbox | null = null;
+    let completed = 0;
+    try {
+      const current = await lab.create();
+      sandbox = current;
+
+      // Reseed only after a payload changed the sandbox
+      let dirty = true;
+      const run = async (payload: InjectionPayload, mode: QueryMode) => {
+        if (dirty) {
+          await current.reset();
+        }
+        const outcome = await measure(current, payload, mode);
+        dirty = outcome.tableDropped || outcome.rowsRemoved > 0 || outcome.rowsAltered > 0;
+        return outcome;
+      };
+
+      for (const payload of PAYLOAD_CORPUS) {
+        results.push({
+          payloadId: payload.id,
+          database: lab.database,
+          vulnerable: await run(payload, 'vulnerable'),
+          safe: await run(payload, 'safe'),
+        });
+        completed++;
+      }
+    } catch (error: any) {
+      // Unreachable engine or broken sandbox: the remaining payloads have no measured outcome
+      results.push(...PAYLOAD_CORPUS.slice(completed).map((payload) => ({
+        payloadId: payload.id,
+        database: lab.database,
+        vulnerable: null,
+        safe: null,
+        error: error.message,
+      })));
+    } finally {
+      await sandbox?.close().catch(() => undefined);
+    }
+  }
+
+  return { engines: LABS.map((lab) => lab.database), payloads: PAYLOAD_CORPUS, results };
+}
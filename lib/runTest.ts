@@ -1,746 +1,499 @@
-import { v4 as uuidv4 } from 'uuid';
-import { connectCassandra, connectMongoDB, connectCockroachDB, getCassandraClient, getMongoDB, getCockroachDBClient } from './dbConnectors';
-import { DatabaseType, OperationType, TestRecord, TestResult } from './types';
-
-const RECORD_COUNT = 10000;
+import { connectAdapter, createAdapter } from './adapters';
+import { createHistogram, Histogram, measure, recordValue, summarizeHistogram } from './histogram';
+import { createKeyChooser, createRandom } from './keyChooser';
+import { appendKeys, loadKeySpace, removeKeys, resetKeySpace } from './keySpace';
+import { runBounded, runConcurrently, runOpenLoop } from './loadGenerator';
+import { generateTestData } from './testData';
+import { countViolations, rowHash, verifyTable } from './verify';
+import { runWarmup } from './warmup';
+import { DEFAULT_WORKLOAD_CONFIG } from './workloadConfig';
+import {
+  DatabaseAdapter,
+  DatabaseType,
+  IntegrityReport,
+  LatencyStats,
+  OpenLoopStats,
+  OperationType,
+  TestRecord,
+  TestResult,
+  WarmupStats,
+  WorkloadConfig,
+} from './types';
 
 /**
- * Generate test data
+ * Outcome of a single operation run, before timing and labelling are applied.
+ * Integrity comes either as a ready report or as a verification pass that runs after timing stops.
  */
-function generateTestData(count: number): TestRecord[] {
-  const records: TestRecord[] = [];
-  for (let i = 0; i < count; i++) {
-    records.push({
-      id: uuidv4(),
-      user_id: i + 1,
-      name: `User ${i + 1}`,
-      email: `user${i + 1}@example.com`,
-      age: 20 + (i % 50),
-      created_at: new Date(),
-      data: `Test data for user ${i + 1}`,
-    });
-  }
-  return records;
+interface OperationOutcome {
+  recordCount: number;
+  rowLatency?: LatencyStats;
+  integrity?: IntegrityReport;
+  verify?: (signal?: AbortSignal) => Promise<IntegrityReport>;
+  openLoop?: OpenLoopStats;
 }
 
-/**
- * Run write test for Cassandra
- */
-async function runCassandraWriteTest(records: TestRecord[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
+const ALL_FIELDS: (keyof TestRecord)[] = ['id', 'user_id', 'name', 'email', 'age', 'created_at', 'data'];
+const UPDATED_FIELDS: (keyof TestRecord)[] = ['id', 'name', 'age'];
 
-  try {
-    const client = getCassandraClient();
-    if (!client) {
-      throw new Error('Cassandra client not initialized');
-    }
+type OperationRunner = (
+  adapter: DatabaseAdapter,
+  config: WorkloadConfig,
+  histogram: Histogram,
+  signal?: AbortSignal
+) => Promise<OperationOutcome>;
 
-    // Bulk insert using batch
-    const queries = records.map((record) => ({
-      query: 'INSERT INTO test_data (id, user_id, name, email, age, created_at, data) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      params: [record.id, record.user_id, record.name, record.email, record.age, record.created_at, record.data],
-    }));
-
-    // Execute in batches of 100
-    const batchSize = 100;
-    for (let i = 0; i < queries.length; i += batchSize) {
-      const batch = queries.slice(i, i + batchSize);
-      await Promise.all(
-        batch.map((q) => client.execute(q.query, q.params, { prepare: true }))
-      );
-    }
-
-    // Verify data integrity - read one record
-    const verifyRecord = records[0];
-    const result = await client.execute(
-      'SELECT * FROM test_data WHERE id = ?',
-      [verifyRecord.id],
-      { prepare: true }
-    );
-
-    if (result.rows.length === 0 || result.rows[0].get('name') !== verifyRecord.name) {
-      dataIntegrity = false;
-    }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'Cassandra',
-      operation: 'write',
-      timeTaken,
-      recordCount: records.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'Cassandra',
-      operation: 'write',
-      timeTaken: Date.now() - startTime,
-      recordCount: records.length,
-      dataIntegrity: false,
-      error,
-    };
+/**
+ * Pick the IDs of existing records an operation run should target
+ */
+async function selectTargetIds(adapter: DatabaseAdapter, config: WorkloadConfig): Promise<string[]> {
+  const { keys } = await loadKeySpace(adapter);
+  if (keys.length === 0) {
+    throw new Error('No records found in database. Please run Write test first.');
   }
+
+  const chooser = createKeyChooser(config.keyDistribution, createRandom(config.seed));
+  return Array.from({ length: config.operationCount }, () => keys[chooser.nextIndex(keys.length)].id);
 }
 
 /**
- * Run read test for Cassandra
+ * Write test - insert all records in batches (latency is recorded per batch, and per row for per-row strategies)
  */
-async function runCassandraReadTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
-
-  try {
-    const client = getCassandraClient();
-    if (!client) {
-      throw new Error('Cassandra client not initialized');
-    }
-
-    // First, get existing records from database (Cassandra LIMIT doesn't support parameters)
-    const limitCount = Math.min(recordIds.length, 1000);
-    const existingRecords = await client.execute(`SELECT id FROM test_data LIMIT ${limitCount}`, [], { prepare: false });
-
-    if (existingRecords.rows.length === 0) {
-      // No records exist, return failure
-      return {
-        database: 'Cassandra',
-        operation: 'read',
-        timeTaken: Date.now() - startTime,
-        recordCount: 0,
-        dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
-      };
-    }
-
-    // Use existing record IDs
-    const idsToRead = existingRecords.rows.slice(0, Math.min(recordIds.length, 1000)).map((row) => row.get('id').toString());
-
-    // Read records
-    const readPromises = idsToRead.map((id) =>
-      client.execute('SELECT * FROM test_data WHERE id = ?', [id], { prepare: true })
+const runWriteTest: OperationRunner = async (adapter, config, histogram, signal) => {
+  const rowHistogram = createHistogram();
+  const keySpace = await loadKeySpace(adapter);
+  // Continue the user_id sequence so repeated write runs never reuse IDs
+  const firstUserId = keySpace.nextUserId - 1;
+  keySpace.nextUserId += config.recordCount;
+  // Keep only a hash per written row so the whole run can be verified without holding the records
+  const expected = new Map<string, string>();
+
+  const batchCount = Math.ceil(config.recordCount / config.batchSize);
+  await runBounded(batchCount, config.concurrency, async (batchIndex) => {
+    const offset = batchIndex * config.batchSize;
+    const batch = generateTestData(firstUserId + offset, Math.min(config.batchSize, config.recordCount - offset), config.payloadSize);
+    batch.forEach((record) => expected.set(record.id, rowHash(record, ALL_FIELDS)));
+    await measure(histogram, () =>
+      adapter.insertBatch(batch, config.writeStrategies[adapter.type], (call) => measure(rowHistogram, call))
     );
+    appendKeys(keySpace, batch.map(({ id, user_id }) => ({ id, user_id })));
+  }, signal);
 
-    const results = await Promise.all(readPromises);
-
-    // Verify data integrity - check that all records were found and have expected fields
-    if (results.some((r) => r.rows.length === 0)) {
-      dataIntegrity = false;
-    } else {
-      // Verify that records have expected structure
-      const firstResult = results[0].rows[0];
-      if (!firstResult || !firstResult.get('id') || !firstResult.get('name')) {
-        dataIntegrity = false;
-      }
-    }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'Cassandra',
-      operation: 'read',
-      timeTaken,
-      recordCount: idsToRead.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'Cassandra',
-      operation: 'read',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
-  }
-}
+  // Verify data integrity - every written row is stored with identical content
+  return {
+    recordCount: config.recordCount,
+    ...(rowHistogram.totalCount > 0 ? { rowLatency: summarizeHistogram(rowHistogram) } : {}),
+    verify: (signal) => verifyTable(adapter, { fields: ALL_FIELDS, expected, known: new Set(keySpace.keys.map((key) => key.id)) }, signal),
+  };
+};
 
 /**
- * Run update test for Cassandra
+ * Read test - read existing records by ID
  */
-async function runCassandraUpdateTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
+const runReadTest: OperationRunner = async (adapter, config, histogram, signal) => {
+  const idsToRead = await selectTargetIds(adapter, config);
+
+  const results = await runConcurrently(idsToRead, config.concurrency, (id) =>
+    measure(histogram, () => adapter.readById(id)), signal
+  );
+
+  // Verify data integrity - every read found its record, and the record it asked for
+  return {
+    recordCount: idsToRead.length,
+    integrity: {
+      checked: results.length,
+      missing: results.filter((record) => record === null).length,
+      extra: 0,
+      mismatched: results.filter((record, i) => record !== null && (record.id !== idsToRead[i] || !record.name)).length,
+    },
+  };
+};
 
-  try {
-    const client = getCassandraClient();
-    if (!client) {
-      throw new Error('Cassandra client not initialized');
-    }
-
-    // First, get existing records from database (Cassandra LIMIT doesn't support parameters)
-    const limitCount = Math.min(recordIds.length, 1000);
-    const existingRecords = await client.execute(`SELECT id FROM test_data LIMIT ${limitCount}`, [], { prepare: false });
-
-    if (existingRecords.rows.length === 0) {
-      // No records exist, return failure
-      return {
-        database: 'Cassandra',
-        operation: 'update',
-        timeTaken: Date.now() - startTime,
-        recordCount: 0,
-        dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
-      };
-    }
+/**
+ * Update test - update existing records by ID
+ */
+const runUpdateTest: OperationRunner = async (adapter, config, histogram, signal) => {
+  const idsToUpdate = await selectTargetIds(adapter, config);
 
-    // Use existing record IDs
-    const idsToUpdate = existingRecords.rows.slice(0, Math.min(recordIds.length, 1000)).map((row) => row.get('id').toString());
+  await runConcurrently(idsToUpdate, config.concurrency, (id) =>
+    measure(histogram, () => adapter.updateById(id, { name: `Updated User ${id}`, age: 99 })), signal
+  );
 
-    // Update records
-    const updatePromises = idsToUpdate.map((id) =>
-      client.execute(
-        'UPDATE test_data SET name = ?, age = ? WHERE id = ?',
-        [`Updated User ${id}`, 99, id],
-        { prepare: true }
-      )
-    );
+  // Verify update - every updated row carries the new values
+  const expected = new Map(idsToUpdate.map((id) => [id, rowHash({ id, name: `Updated User ${id}`, age: 99 }, UPDATED_FIELDS)]));
 
-    await Promise.all(updatePromises);
+  return {
+    recordCount: idsToUpdate.length,
+    verify: async (signal) => {
+      const { keys } = await loadKeySpace(adapter);
+      return verifyTable(adapter, { fields: UPDATED_FIELDS, expected, known: new Set(keys.map((key) => key.id)) }, signal);
+    },
+  };
+};
 
-    // Verify update
-    const verifyResult = await client.execute(
-      'SELECT * FROM test_data WHERE id = ?',
-      [idsToUpdate[0]],
-      { prepare: true }
-    );
+/**
+ * Scan test - page through the table from the start (latency is recorded per page)
+ */
+const runScanTest: OperationRunner = async (adapter, config, histogram, signal) => {
+  const { keys } = await loadKeySpace(adapter);
+  if (keys.length === 0) {
+    throw new Error('No records found in database. Please run Write test first.');
+  }
 
-    if (verifyResult.rows.length === 0 || verifyResult.rows[0].get('age') !== 99) {
-      dataIntegrity = false;
+  const expectedCount = Math.min(config.operationCount, keys.length);
+  const knownIds = new Set(keys.map((key) => key.id));
+  const seenIds = new Set<string>();
+  let unexpectedRows = 0;
+  let outOfOrder = 0;
+  let lastUserId = Number.MIN_SAFE_INTEGER;
+
+  const pages = adapter.scan(null, expectedCount, config.batchSize)[Symbol.asyncIterator]();
+  while (true) {
+    signal?.throwIfAborted();
+    const { done, value: page } = await measure(histogram, () => pages.next());
+    if (done) break;
+
+    for (const record of page) {
+      if (!knownIds.has(record.id) || seenIds.has(record.id)) {
+        unexpectedRows++;
+      }
+      seenIds.add(record.id);
+      if (record.user_id < lastUserId) {
+        outOfOrder++;
+      }
+      lastUserId = record.user_id;
     }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'Cassandra',
-      operation: 'update',
-      timeTaken,
-      recordCount: idsToUpdate.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'Cassandra',
-      operation: 'update',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
   }
-}
+
+  // Verify data integrity - the scan returned every expected row exactly once,
+  // in user_id order where the engine stores rows ordered by user_id
+  const orderMatters = adapter.type !== 'cassandra';
+
+  return {
+    recordCount: seenIds.size,
+    integrity: {
+      checked: seenIds.size,
+      missing: Math.max(0, expectedCount - seenIds.size),
+      extra: unexpectedRows,
+      mismatched: orderMatters ? outOfOrder : 0,
+    },
+  };
+};
 
 /**
- * Run write test for MongoDB
+ * Delete test - delete distinct existing records by ID
  */
-async function runMongoWriteTest(records: TestRecord[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
+const runDeleteTest: OperationRunner = async (adapter, config, histogram, signal) => {
+  const keySpace = await loadKeySpace(adapter);
+  if (keySpace.keys.length === 0) {
+    throw new Error('No records found in database. Please run Write test first.');
+  }
 
+  // Deletes need distinct keys, so draw from the chooser until enough unique keys are found
+  const chooser = createKeyChooser(config.keyDistribution, createRandom(config.seed));
+  const targetCount = Math.min(config.operationCount, keySpace.keys.length);
+  const idsToDelete = new Set<string>();
+  for (let attempts = 0; idsToDelete.size < targetCount && attempts < targetCount * 10; attempts++) {
+    idsToDelete.add(keySpace.keys[chooser.nextIndex(keySpace.keys.length)].id);
+  }
+  const ids = Array.from(idsToDelete);
+
+  const deleted: string[] = [];
   try {
-    const db = getMongoDB();
-    if (!db) {
-      throw new Error('MongoDB client not initialized');
-    }
+    await runConcurrently(ids, config.concurrency, async (id) => {
+      await measure(histogram, () => adapter.deleteById(id));
+      deleted.push(id);
+    }, signal);
+  } finally {
+    // Keep the key space in step with the table even when the run stops early
+    removeKeys(keySpace, deleted);
+  }
 
-    const collection = db.collection('test_data');
-
-    // Convert to MongoDB format
-    const mongoRecords = records.map((r) => ({
-      id: r.id,
-      user_id: r.user_id,
-      name: r.name,
-      email: r.email,
-      age: r.age,
-      created_at: r.created_at,
-      data: r.data,
-    }));
-
-    // Bulk insert
-    await collection.insertMany(mongoRecords, { ordered: false });
-
-    // Verify data integrity
-    const verifyRecord = await collection.findOne({ id: records[0].id });
-    if (!verifyRecord || verifyRecord.name !== records[0].name) {
-      dataIntegrity = false;
-    }
+  // Verify delete - none of the deleted rows is left in the table
+  return {
+    recordCount: ids.length,
+    verify: (signal) => verifyTable(adapter, {
+      fields: ALL_FIELDS,
+      expected: new Map(),
+      forbidden: new Set(ids),
+      known: new Set(keySpace.keys.map((key) => key.id)),
+    }, signal),
+  };
+};
+
+const operationRunners: Record<OperationType, OperationRunner> = {
+  write: runWriteTest,
+  read: runReadTest,
+  update: runUpdateTest,
+  scan: runScanTest,
+  delete: runDeleteTest,
+};
 
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'MongoDB',
-      operation: 'write',
-      timeTaken,
-      recordCount: records.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'MongoDB',
-      operation: 'write',
-      timeTaken: Date.now() - startTime,
-      recordCount: records.length,
-      dataIntegrity: false,
-      error,
-    };
-  }
+/**
+ * A single self-contained operation call, how many records each call touches,
+ * and a verification of what the calls that succeeded so far did
+ */
+interface OperationTask {
+  recordsPerOperation: number;
+  execute: () => Promise<void>;
+  verify: (signal?: AbortSignal) => Promise<IntegrityReport>;
 }
 
 /**
- * Run read test for MongoDB
+ * Build the per-call task used by open-loop runs and warm-up; keys are chosen as each call starts
  */
-async function runMongoReadTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
+async function createOperationTask(adapter: DatabaseAdapter, operation: OperationType, config: WorkloadConfig): Promise<OperationTask> {
+  const keySpace = await loadKeySpace(adapter);
+  if (operation !== 'write' && keySpace.keys.length === 0) {
+    throw new Error('No records found in database. Please run Write test first.');
+  }
 
-  try {
-    const db = getMongoDB();
-    if (!db) {
-      throw new Error('MongoDB client not initialized');
+  const chooser = createKeyChooser(config.keyDistribution, createRandom(config.seed));
+  const chooseIndex = () => {
+    if (keySpace.keys.length === 0) {
+      throw new Error('No records left to target');
     }
+    return chooser.nextIndex(keySpace.keys.length);
+  };
 
-    const collection = db.collection('test_data');
+  const knownIds = () => new Set(keySpace.keys.map((key) => key.id));
 
-    // First, get existing records from database
-    const existingRecords = await collection.find({}).limit(recordIds.length).toArray();
-
-    if (existingRecords.length === 0) {
-      // No records exist, return failure
+  switch (operation) {
+    case 'write': {
+      const expected = new Map<string, string>();
       return {
-        database: 'MongoDB',
-        operation: 'read',
-        timeTaken: Date.now() - startTime,
-        recordCount: 0,
-        dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
+        recordsPerOperation: config.batchSize,
+        execute: async () => {
+          // Claim the user_id range before the insert so overlapping calls never collide
+          const firstUserId = keySpace.nextUserId - 1;
+          keySpace.nextUserId += config.batchSize;
+          const batch = generateTestData(firstUserId, config.batchSize, config.payloadSize);
+          await adapter.insertBatch(batch, config.writeStrategies[adapter.type]);
+          batch.forEach((record) => expected.set(record.id, rowHash(record, ALL_FIELDS)));
+          appendKeys(keySpace, batch.map(({ id, user_id }) => ({ id, user_id })));
+        },
+        verify: (signal) => verifyTable(adapter, { fields: ALL_FIELDS, expected, known: knownIds() }, signal),
       };
     }
-
-    // Use existing record IDs
-    const idsToRead = existingRecords.slice(0, Math.min(recordIds.length, 1000)).map((r) => r.id);
-
-    // Read records
-    const readPromises = idsToRead.map((id) => collection.findOne({ id }));
-    const results = await Promise.all(readPromises);
-
-    // Verify data integrity - check that all records were found and have expected fields
-    if (results.some((r) => !r)) {
-      dataIntegrity = false;
-    } else {
-      // Verify that records have expected structure
-      const firstResult = results[0];
-      if (!firstResult || !firstResult.id || !firstResult.name) {
-        dataIntegrity = false;
-      }
+    case 'read': {
+      const report = { checked: 0, missing: 0, extra: 0, mismatched: 0 };
+      return {
+        recordsPerOperation: 1,
+        execute: async () => {
+          const { id } = keySpace.keys[chooseIndex()];
+          const record = await adapter.readById(id);
+          report.checked++;
+          if (!record) {
+            report.missing++;
+          } else if (record.id !== id || !record.name) {
+            report.mismatched++;
+          }
+        },
+        verify: async () => ({ ...report }),
+      };
     }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'MongoDB',
-      operation: 'read',
-      timeTaken,
-      recordCount: idsToRead.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'MongoDB',
-      operation: 'read',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
-  }
-}
-
-/**
- * Run update test for MongoDB
- */
-async function runMongoUpdateTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
-
-  try {
-    const db = getMongoDB();
-    if (!db) {
-      throw new Error('MongoDB client not initialized');
+    case 'update': {
+      const expected = new Map<string, string>();
+      return {
+        recordsPerOperation: 1,
+        execute: async () => {
+          const { id } = keySpace.keys[chooseIndex()];
+          await adapter.updateById(id, { name: `Updated User ${id}`, age: 99 });
+          expected.set(id, rowHash({ id, name: `Updated User ${id}`, age: 99 }, UPDATED_FIELDS));
+        },
+        verify: (signal) => verifyTable(adapter, { fields: UPDATED_FIELDS, expected, known: knownIds() }, signal),
+      };
     }
-
-    const collection = db.collection('test_data');
-
-    // First, get existing records from database
-    const existingRecords = await collection.find({}).limit(recordIds.length).toArray();
-
-    if (existingRecords.length === 0) {
-      // No records exist, return failure
+    case 'delete': {
+      const deleted = new Set<string>();
       return {
-        database: 'MongoDB',
-        operation: 'update',
-        timeTaken: Date.now() - startTime,
-        recordCount: 0,
-        dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
+        recordsPerOperation: 1,
+        execute: async () => {
+          // Remove the key up front so no later call targets it again, and put it back if the delete fails
+          const [key] = keySpace.keys.splice(chooseIndex(), 1);
+          try {
+            await adapter.deleteById(key.id);
+          } catch (error) {
+            appendKeys(keySpace, [key]);
+            throw error;
+          }
+          deleted.add(key.id);
+        },
+        verify: (signal) => verifyTable(adapter, { fields: ALL_FIELDS, expected: new Map(), forbidden: deleted, known: knownIds() }, signal),
       };
     }
-
-    // Use existing record IDs
-    const idsToUpdate = existingRecords.slice(0, Math.min(recordIds.length, 1000)).map((r) => r.id);
-
-    // Update records
-    const updatePromises = idsToUpdate.map((id) =>
-      collection.updateOne(
-        { id },
-        { $set: { name: `Updated User ${id}`, age: 99 } }
-      )
-    );
-
-    await Promise.all(updatePromises);
-
-    // Verify update
-    const verifyRecord = await collection.findOne({ id: idsToUpdate[0] });
-    if (!verifyRecord || verifyRecord.age !== 99) {
-      dataIntegrity = false;
+    case 'scan': {
+      // Every row a scan returns is a known row, in user_id order where the engine stores rows ordered by user_id
+      const report = { checked: 0, missing: 0, extra: 0, mismatched: 0 };
+      const orderMatters = adapter.type !== 'cassandra';
+      // Scans leave the key space unchanged, so the known set is built once, outside the timed calls
+      const known = knownIds();
+      return {
+        recordsPerOperation: config.batchSize,
+        execute: async () => {
+          let lastUserId = Number.MIN_SAFE_INTEGER;
+          for await (const page of adapter.scan(keySpace.keys[chooseIndex()], config.batchSize, config.batchSize)) {
+            if (page.length === 0) break;
+            for (const record of page) {
+              report.checked++;
+              if (!known.has(record.id)) {
+                report.extra++;
+              }
+              if (orderMatters && record.user_id < lastUserId) {
+                report.mismatched++;
+              }
+              lastUserId = record.user_id;
+            }
+          }
+        },
+        verify: async () => ({ ...report }),
+      };
     }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'MongoDB',
-      operation: 'update',
-      timeTaken,
-      recordCount: idsToUpdate.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'MongoDB',
-      operation: 'update',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
   }
 }
 
 /**
- * Run write test for CockroachDB
+ * Open-loop test - issue operations on a fixed schedule at the target rate for the configured duration
  */
-async function runCockroachWriteTest(records: TestRecord[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
+async function runOpenLoopTest(
+  adapter: DatabaseAdapter,
+  operation: OperationType,
+  config: WorkloadConfig,
+  histogram: Histogram,
+  signal?: AbortSignal
+): Promise<OperationOutcome> {
+  const { recordsPerOperation, execute, verify } = await createOperationTask(adapter, operation, config);
+
+  const outcome = await runOpenLoop(
+    config.targetOpsPerSec,
+    config.durationSec * 1000,
+    config.concurrency,
+    execute,
+    (latencyMs) => recordValue(histogram, latencyMs * 1000),
+    signal
+  );
+  const completed = outcome.started - outcome.errors;
+
+  return {
+    recordCount: completed * recordsPerOperation,
+    // Missed slots are a load-generation shortfall, reported under openLoop, not an integrity violation
+    verify,
+    openLoop: {
+      targetOpsPerSec: config.targetOpsPerSec,
+      durationSec: config.durationSec,
+      scheduled: outcome.scheduled,
+      completed,
+      late: outcome.late,
+      missed: outcome.missed,
+      errors: outcome.errors,
+    },
+  };
+}
 
+/**
+ * Main test runner function. Aborting `signal` stops the run after the calls in flight settle;
+ * the result then carries the abort reason as its error.
+ */
+export async function runTest(
+  dbType: DatabaseType,
+  operation: OperationType,
+  config: WorkloadConfig = DEFAULT_WORKLOAD_CONFIG,
+  signal?: AbortSignal
+): Promise<TestResult> {
+  let adapter: DatabaseAdapter;
+  const setupStart = Date.now();
   try {
-    const client = getCockroachDBClient();
-    if (!client) {
-      throw new Error('CockroachDB client not initialized');
-    }
-
-    // Bulk insert using parameterized queries
-    const insertQuery = `
-      INSERT INTO test_data (id, user_id, name, email, age, created_at, data)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-    `;
-
-    // Execute in batches
-    const batchSize = 100;
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = records.slice(i, i + batchSize);
-      await Promise.all(
-        batch.map((record) =>
-          client.query(insertQuery, [
-            record.id,
-            record.user_id,
-            record.name,
-            record.email,
-            record.age,
-            record.created_at,
-            record.data,
-          ])
-        )
-      );
-    }
-
-    // Verify data integrity - with proper type checking
-    const verifyResult = await client.query('SELECT * FROM test_data WHERE id = $1', [records[0].id]);
-    if (verifyResult.rows.length === 0) {
-      dataIntegrity = false;
-    } else {
-      const row = verifyResult.rows[0];
-      // Check name with type safety
-      const nameMatches = row.name && String(row.name) === String(records[0].name);
-      if (!nameMatches) {
-        dataIntegrity = false;
-      }
-    }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'CockroachDB',
-      operation: 'write',
-      timeTaken,
-      recordCount: records.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
+    adapter = await connectAdapter(dbType, config);
+  } catch (error: any) {
+    // Same label as the other paths so failed connects group with their engine in history and comparisons
     return {
-      database: 'CockroachDB',
-      operation: 'write',
-      timeTaken: Date.now() - startTime,
-      recordCount: records.length,
+      database: createAdapter(dbType).displayName,
+      operation,
+      timeTaken: 0,
+      recordCount: 0,
       dataIntegrity: false,
-      error,
+      setupTime: Date.now() - setupStart,
+      error: error.message,
     };
   }
-}
+  const setupTime = Date.now() - setupStart;
 
-/**
- * Run read test for CockroachDB
- */
-async function runCockroachReadTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
-
-  try {
-    const client = getCockroachDBClient();
-    if (!client) {
-      throw new Error('CockroachDB client not initialized');
-    }
-
-    // First, get existing records from database
-    const existingRecordsResult = await client.query('SELECT id FROM test_data LIMIT $1', [recordIds.length]);
-
-    if (existingRecordsResult.rows.length === 0) {
-      // No records exist, return failure
+  if (operation === 'write' && config.isolation === 'truncate') {
+    try {
+      await adapter.truncate();
+      resetKeySpace(dbType);
+    } catch (error: any) {
       return {
-        database: 'CockroachDB',
-        operation: 'read',
-        timeTaken: Date.now() - startTime,
+        database: adapter.displayName,
+        operation,
+        timeTaken: 0,
         recordCount: 0,
         dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
+        setupTime,
+        error: `Truncate failed: ${error.message}`,
       };
     }
-
-    // Use existing record IDs
-    const idsToRead = existingRecordsResult.rows.slice(0, Math.min(recordIds.length, 1000)).map((row) => row.id);
-
-    // Read records using parameterized queries
-    const readPromises = idsToRead.map((id) =>
-      client.query('SELECT * FROM test_data WHERE id = $1', [id])
-    );
-
-    const results = await Promise.all(readPromises);
-
-    // Verify data integrity - check that all records were found and have expected fields
-    if (results.some((r) => r.rows.length === 0)) {
-      dataIntegrity = false;
-    } else {
-      // Verify that records have expected structure
-      const firstResult = results[0].rows[0];
-      if (!firstResult || !firstResult.id || !firstResult.name) {
-        dataIntegrity = false;
-      } else {
-        // Additional check: verify data types are correct
-        const hasValidStructure =
-          firstResult.id !== null &&
-          firstResult.id !== undefined &&
-          firstResult.name !== null &&
-          firstResult.name !== undefined &&
-          firstResult.age !== null &&
-          firstResult.age !== undefined;
-
-        if (!hasValidStructure) {
-          dataIntegrity = false;
-        }
-      }
-    }
-
-    const timeTaken = Date.now() - startTime;
-    return {
-      database: 'CockroachDB',
-      operation: 'read',
-      timeTaken,
-      recordCount: idsToRead.length,
-      dataIntegrity,
-    };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'CockroachDB',
-      operation: 'read',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
   }
-}
-
-/**
- * Run update test for CockroachDB
- */
-async function runCockroachUpdateTest(recordIds: string[]): Promise<TestResult> {
-  const startTime = Date.now();
-  let dataIntegrity = true;
-  let error: string | undefined;
 
-  try {
-    const client = getCockroachDBClient();
-    if (!client) {
-      throw new Error('CockroachDB client not initialized');
-    }
-
-    // First, get existing records from database
-    const existingRecordsResult = await client.query('SELECT id FROM test_data LIMIT $1', [recordIds.length]);
-
-    if (existingRecordsResult.rows.length === 0) {
-      // No records exist, return failure
+  let warmup: WarmupStats | undefined;
+  if (config.warmupOperations > 0) {
+    try {
+      const { execute } = await createOperationTask(adapter, operation, config);
+      warmup = await runWarmup(execute, config.warmupOperations, config.concurrency, config.steadyStateThreshold, signal);
+    } catch (error: any) {
       return {
-        database: 'CockroachDB',
-        operation: 'update',
-        timeTaken: Date.now() - startTime,
+        database: adapter.displayName,
+        operation,
+        timeTaken: 0,
         recordCount: 0,
         dataIntegrity: false,
-        error: 'No records found in database. Please run Write test first.',
+        setupTime,
+        error: `Warm-up failed: ${error.message}`,
       };
     }
+  }
 
-    // Use existing record IDs
-    const idsToUpdate = existingRecordsResult.rows.slice(0, Math.min(recordIds.length, 1000)).map((row) => row.id);
-
-    // Update records using parameterized queries
-    const updatePromises = idsToUpdate.map((id) =>
-      client.query('UPDATE test_data SET name = $1, age = $2 WHERE id = $3', [
-        `Updated User ${id}`,
-        99,
-        id,
-      ])
-    );
-
-    await Promise.all(updatePromises);
-
-    // Small delay to ensure updates are committed (CockroachDB distributed nature)
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    // Verify update - with proper type conversion
-    const verifyResult = await client.query('SELECT * FROM test_data WHERE id = $1', [idsToUpdate[0]]);
-    if (verifyResult.rows.length === 0) {
-      dataIntegrity = false;
-    } else {
-      const row = verifyResult.rows[0];
-      // Convert age to number and check both age and name
-      const ageValue = typeof row.age === 'string' ? parseInt(row.age, 10) : Number(row.age);
-      const nameMatches = row.name && row.name.includes('Updated User');
+  // Measurement starts only after connection setup and warm-up
+  const histogram = createHistogram();
+  const startTime = Date.now();
+  try {
+    const { verify, ...outcome } = config.mode === 'open'
+      ? await runOpenLoopTest(adapter, operation, config, histogram, signal)
+      : await operationRunners[operation](adapter, config, histogram, signal);
+    const timeTaken = Date.now() - startTime;
+    const operationsDone = outcome.openLoop ? outcome.openLoop.completed : outcome.recordCount;
 
-      if (ageValue !== 99 || !nameMatches) {
-        dataIntegrity = false;
-      }
-    }
+    // Verification runs after the clock stops so it never counts towards the measured time
+    const integrity = verify ? await verify(signal) : outcome.integrity;
 
-    const timeTaken = Date.now() - startTime;
     return {
-      database: 'CockroachDB',
-      operation: 'update',
+      database: adapter.displayName,
+      operation,
       timeTaken,
-      recordCount: idsToUpdate.length,
-      dataIntegrity,
+      ...outcome,
+      dataIntegrity: integrity ? countViolations(integrity) === 0 : false,
+      ...(integrity ? { integrity } : {}),
+      latency: summarizeHistogram(histogram),
+      opsPerSec: timeTaken > 0 ? Math.round((operationsDone / timeTaken) * 1000) : 0,
+      ...(operation === 'write' ? { writeStrategy: config.writeStrategies[adapter.type] } : {}),
+      pool: adapter.poolSettings(),
+      consistency: adapter.consistencyProfile(),
+      setupTime,
+      ...(warmup ? { warmup } : {}),
     };
-  } catch (err: any) {
-    error = err.message;
-    return {
-      database: 'CockroachDB',
-      operation: 'update',
-      timeTaken: Date.now() - startTime,
-      recordCount: recordIds.length,
-      dataIntegrity: false,
-      error,
-    };
-  }
-}
-
-/**
- * Main test runner function
- */
-export async function runTest(
-  dbType: DatabaseType,
-  operation: OperationType
-): Promise<TestResult> {
-  try {
-    // Connect to database
-    switch (dbType) {
-      case 'cassandra':
-        await connectCassandra();
-        break;
-      case 'mongo':
-        await connectMongoDB();
-        break;
-      case 'cockroach':
-        await connectCockroachDB();
-        break;
-    }
-
-    // Generate test data
-    const testRecords = generateTestData(RECORD_COUNT);
-    const recordIds = testRecords.map((r) => r.id);
-
-    // Run appropriate test
-    switch (dbType) {
-      case 'cassandra':
-        switch (operation) {
-          case 'write':
-            return await runCassandraWriteTest(testRecords);
-          case 'read':
-            return await runCassandraReadTest(recordIds.slice(0, 1000)); // Read 1000 records
-          case 'update':
-            return await runCassandraUpdateTest(recordIds.slice(0, 1000)); // Update 1000 records
-        }
-        break;
-
-      case 'mongo':
-        switch (operation) {
-          case 'write':
-            return await runMongoWriteTest(testRecords);
-          case 'read':
-            return await runMongoReadTest(recordIds.slice(0, 1000)); // Read 1000 records
-          case 'update':
-            return await runMongoUpdateTest(recordIds.slice(0, 1000)); // Update 1000 records
-        }
-        break;
-
-      case 'cockroach':
-        switch (operation) {
-          case 'write':
-            return await runCockroachWriteTest(testRecords);
-          case 'read':
-            return await runCockroachReadTest(recordIds.slice(0, 1000)); // Read 1000 records
-          case 'update':
-            return await runCockroachUpdateTest(recordIds.slice(0, 1000)); // Update 1000 records
-        }
-        break;
-    }
-
-    throw new Error(`Unsupported database type: ${dbType}`);
   } catch (error: any) {
     return {
-      database: dbType,
+      database: adapter.displayName,
       operation,
-      timeTaken: 0,
+      timeTaken: Date.now() - startTime,
       recordCount: 0,
       dataIntegrity: false,
+      latency: summarizeHistogram(histogram),
+      ...(operation === 'write' ? { writeStrategy: config.writeStrategies[adapter.type] } : {}),
+      pool: adapter.poolSettings(),
+      consistency: adapter.consistencyProfile(),
+      setupTime,
+      ...(warmup ? { warmup } : {}),
       error: error.message,
     };
   }
 }
-
@@ -0,0 +1,205 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { databaseTypes } from './adapters';
+import { YCSB_WORKLOADS } from './ycsb';
+import { OPERATION_TYPES, parseWorkloadConfig } from './workloadConfig';
+import { DatabaseType, OperationType, Scenario, SloThresholds, WorkloadConfig, YcsbWorkload } from './types';
+
+// Scenario files checked into the repository; the API only runs files from here
+export const SCENARIOS_DIR = path.join(process.cwd(), 'scenarios');
+
+const SCENARIO_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const SCENARIO_FIELDS = ['name', 'description', 'engines', 'operations', 'mix', 'repetitions', 'workload', 'slo', 'operationSlo'];
+const MAX_REPETITIONS = 100;
+
+// Repetitions of the standard matrix in a repeat run
+export const DEFAULT_REPEAT_COUNT = 10;
+
+const sloNumericFields: Exclude<keyof SloThresholds, 'requireIntegrity'>[] = ['maxP50', 'maxP95', 'maxP99', 'minOpsPerSec', 'maxTimeTaken'];
+
+/**
+ * Check a list field against its allowed values; undefined keeps the default
+ */
+function parseList<T extends string>(name: string, value: unknown, allowed: T[], defaults: T[], errors: string[]): T[] {
+  if (value === undefined) {
+    return defaults;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${name} must be a non-empty array`);
+    return defaults;
+  }
+  const invalid = value.filter((item) => !allowed.includes(item));
+  if (invalid.length > 0) {
+    errors.push(`${name} has unknown values: ${invalid.join(', ')} (allowed: ${allowed.join(', ')})`);
+    return defaults;
+  }
+  return Array.from(new Set(value as T[]));
+}
+
+function parseSlo(name: string, value: unknown, errors: string[]): SloThresholds {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${name} must be an object`);
+    return {};
+  }
+
+  const slo: SloThresholds = {};
+  for (const [key, threshold] of Object.entries(value)) {
+    const numericField = sloNumericFields.find((field) => field === key);
+    if (key === 'requireIntegrity') {
+      if (typeof threshold !== 'boolean') {
+        errors.push(`${name}.requireIntegrity must be a boolean`);
+      } else {
+        slo.requireIntegrity = threshold;
+      }
+    } else if (numericField) {
+      if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0) {
+        errors.push(`${name}.${key} must be a non-negative number`);
+      } else {
+        slo[numericField] = threshold;
+      }
+    } else {
+      errors.push(`${name} has unknown threshold: ${key}`);
+    }
+  }
+  return slo;
+}
+
+/**
+ * Validate a scenario description (as read from a scenario file or a request) and fill in the defaults
+ */
+export function parseScenario(input: unknown): { scenario: Scenario | null; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { scenario: null, errors: ['scenario must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const raw = input as Record<string, unknown>;
+
+  const unknownFields = Object.keys(raw).filter((key) => !SCENARIO_FIELDS.includes(key));
+  if (unknownFields.length > 0) {
+    errors.push(`unknown fields: ${unknownFields.join(', ')}`);
+  }
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    errors.push('name is required');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  const engines = parseList<DatabaseType>('engines', raw.engines, databaseTypes, databaseTypes, errors);
+
+  let mix: YcsbWorkload | undefined;
+  if (raw.mix !== undefined) {
+    if (raw.operations !== undefined) {
+      errors.push('operations and mix are mutually exclusive');
+    }
+    if (!Object.keys(YCSB_WORKLOADS).includes(raw.mix as string)) {
+      errors.push(`mix must be one of: ${Object.keys(YCSB_WORKLOADS).join(', ')}`);
+    } else {
+      mix = raw.mix as YcsbWorkload;
+    }
+  }
+  const operations = mix ? [] : parseList<OperationType>('operations', raw.operations, OPERATION_TYPES, OPERATION_TYPES, errors);
+
+  let repetitions = 1;
+  if (raw.repetitions !== undefined) {
+    if (typeof raw.repetitions !== 'number' || !Number.isInteger(raw.repetitions) || raw.repetitions < 1 || raw.repetitions > MAX_REPETITIONS) {
+      errors.push(`repetitions must be an integer between 1 and ${MAX_REPETITIONS}`);
+    } else {
+      repetitions = raw.repetitions;
+    }
+  }
+
+  const { config: workload, errors: workloadErrors } = parseWorkloadConfig(raw.workload);
+  errors.push(...workloadErrors.map((error) => `workload: ${error}`));
+
+  const slo = parseSlo('slo', raw.slo, errors);
+
+  const operationSlo: Partial<Record<OperationType, SloThresholds>> = {};
+  if (raw.operationSlo !== undefined) {
+    if (typeof raw.operationSlo !== 'object' || raw.operationSlo === null || Array.isArray(raw.operationSlo)) {
+      errors.push('operationSlo must be an object');
+    } else {
+      for (const [operation, thresholds] of Object.entries(raw.operationSlo)) {
+        if (!OPERATION_TYPES.includes(operation as OperationType)) {
+          errors.push(`operationSlo has unknown operation: ${operation}`);
+        } else {
+          operationSlo[operation as OperationType] = parseSlo(`operationSlo.${operation}`, thresholds, errors);
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { scenario: null, errors };
+  }
+
+  return {
+    scenario: {
+      name: (raw.name as string).trim(),
+      ...(raw.description ? { description: raw.description as string } : {}),
+      engines,
+      operations,
+      ...(mix ? { mix } : {}),
+      repetitions,
+      workload,
+      slo,
+      operationSlo,
+    },
+    errors,
+  };
+}
+
+/**
+ * The standard test matrix (every engine through every operation) as a scenario without SLOs
+ */
+export function createMatrixScenario(name: string, workload: WorkloadConfig, repetitions = 1): Scenario {
+  return {
+    name,
+    engines: databaseTypes,
+    operations: OPERATION_TYPES,
+    repetitions,
+    workload,
+    slo: {},
+    operationSlo: {},
+  };
+}
+
+/**
+ * Read and validate a JSON or YAML scenario file
+ */
+export async function loadScenarioFile(filePath: string): Promise<Scenario> {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!SCENARIO_EXTENSIONS.includes(extension)) {
+    throw new Error(`Scenario files must end in ${SCENARIO_EXTENSIONS.join(', ')}`);
+  }
+
+  const contents = await fs.readFile(filePath, 'utf8');
+  let input: unknown;
+  try {
+    input = extension === '.json' ? JSON.parse(contents) : yaml.load(contents);
+  } catch (error: any) {
+    throw new Error(`Cannot parse ${path.basename(filePath)}: ${error.message}`);
+  }
+
+  const { scenario, errors } = parseScenario(input);
+  if (!scenario) {
+    throw new Error(`Invalid scenario ${path.basename(filePath)}: ${errors.join('; ')}`);
+  }
+  return scenario;
+}
+
+/**
+ * Path of a scenario file in the scenarios directory; only plain file names are accepted
+ */
+export function resolveScenarioFile(fileName: string): string {
+  if (fileName !== path.basename(fileName) || fileName.startsWith('.')) {
+    throw new Error('file must be the name of a file in the scenarios directory');
+  }
+  return path.join(SCENARIOS_DIR, fileName);
+}
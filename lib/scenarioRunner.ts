@@ -0,0 +1,187 @@
+import { createAdapter } from './adapters';
+import { recordRun } from './history';
+import { runTest } from './runTest';
+import { summarizeRepeats } from './stats';
+import { runWorkloadMix, YCSB_WORKLOADS } from './ycsb';
+import {
+  RepeatTestResult,
+  RunKind,
+  Scenario,
+  ScenarioResult,
+  SloThresholds,
+  SloViolation,
+  TestResult,
+  TestStatus,
+  WorkloadMixResult,
+} from './types';
+
+const operationLabels: { [key: string]: string } = {
+  write: 'yazma',
+  read: 'okuma',
+  update: 'güncelleme',
+  scan: 'tarama',
+  delete: 'silme',
+};
+
+export interface ScenarioRunOptions {
+  onStatus?: (status: TestStatus) => void;
+  signal?: AbortSignal; // stops the scenario between runs and aborts the run in progress
+  kind?: RunKind; // how the run is labelled in the history, 'scenario' by default
+}
+
+type MeasuredResult = Pick<TestResult, 'database' | 'timeTaken' | 'dataIntegrity' | 'latency' | 'opsPerSec' | 'error'>;
+
+/**
+ * Compare one result against its SLO thresholds; failed runs are reported as errors, not as SLO breaches
+ */
+export function checkSlo(
+  result: MeasuredResult,
+  operation: SloViolation['operation'],
+  iteration: number,
+  slo: SloThresholds
+): SloViolation[] {
+  if (result.error) {
+    return [];
+  }
+
+  const violations: SloViolation[] = [];
+  const violation = (metric: keyof SloThresholds, limit: number | boolean, actual: number | boolean) =>
+    violations.push({ database: result.database, operation, iteration, metric, limit, actual });
+
+  if (slo.maxP50 !== undefined && result.latency && result.latency.p50 > slo.maxP50) {
+    violation('maxP50', slo.maxP50, result.latency.p50);
+  }
+  if (slo.maxP95 !== undefined && result.latency && result.latency.p95 > slo.maxP95) {
+    violation('maxP95', slo.maxP95, result.latency.p95);
+  }
+  if (slo.maxP99 !== undefined && result.latency && result.latency.p99 > slo.maxP99) {
+    violation('maxP99', slo.maxP99, result.latency.p99);
+  }
+  if (slo.minOpsPerSec !== undefined && (result.opsPerSec ?? 0) < slo.minOpsPerSec) {
+    violation('minOpsPerSec', slo.minOpsPerSec, result.opsPerSec ?? 0);
+  }
+  if (slo.maxTimeTaken !== undefined && result.timeTaken > slo.maxTimeTaken) {
+    violation('maxTimeTaken', slo.maxTimeTaken, result.timeTaken);
+  }
+  if (slo.requireIntegrity && !result.dataIntegrity) {
+    violation('requireIntegrity', true, false);
+  }
+  return violations;
+}
+
+/**
+ * Run every engine through the scenario's operations (or mix) the requested number of times,
+ * reporting progress as TestStatus updates, then check the SLOs and store the run.
+ * A cancelled scenario throws the abort reason and is not stored.
+ */
+export async function runScenario(scenario: Scenario, options: ScenarioRunOptions = {}): Promise<ScenarioResult> {
+  const { onStatus, signal, kind = 'scenario' } = options;
+  const { engines, operations, mix, repetitions, workload } = scenario;
+  const results: TestResult[] = [];
+  const mixResults: WorkloadMixResult[] = [];
+  const repeatResults: RepeatTestResult[] = [];
+  const sloViolations: SloViolation[] = [];
+
+  const totalSteps = engines.length * (mix ? 1 : operations.length) * repetitions;
+  let step = 0;
+
+  for (const dbType of engines) {
+    const dbDisplayName = createAdapter(dbType).displayName;
+
+    if (mix) {
+      for (let iteration = 1; iteration <= repetitions; iteration++) {
+        signal?.throwIfAborted();
+        step++;
+        const progress = Math.round((step / totalSteps) * 100);
+        onStatus?.({
+          currentDatabase: dbDisplayName,
+          currentOperation: `ycsb-${mix}`,
+          status: 'running',
+          progress,
+          message: `${scenario.name}: ${dbDisplayName} için YCSB ${mix} iş yükü (${YCSB_WORKLOADS[mix].description}) çalıştırılıyor...`,
+          recordCount: workload.operationCount,
+          iteration,
+          total: repetitions,
+        });
+
+        const result = await runWorkloadMix(dbType, mix, workload, signal);
+        signal?.throwIfAborted();
+        mixResults.push(result);
+        sloViolations.push(...checkSlo(result, `ycsb-${mix}`, iteration, scenario.slo));
+
+        onStatus?.({
+          currentDatabase: dbDisplayName,
+          currentOperation: `ycsb-${mix}`,
+          status: result.error ? 'error' : 'completed',
+          progress,
+          message: result.error
+            ? `${scenario.name}: ${dbDisplayName} için YCSB ${mix} iş yükü başarısız: ${result.error}`
+            : `${scenario.name}: ${dbDisplayName} için YCSB ${mix} tamamlandı. ${result.opsPerSec.toLocaleString()} işlem/sn, p99: ${result.latency.p99}ms`,
+          iteration,
+          total: repetitions,
+        });
+      }
+      continue;
+    }
+
+    for (const operation of operations) {
+      const slo = { ...scenario.slo, ...scenario.operationSlo[operation] };
+      const times: (number | null)[] = [];
+
+      for (let iteration = 1; iteration <= repetitions; iteration++) {
+        signal?.throwIfAborted();
+        step++;
+        const progress = Math.round((step / totalSteps) * 100);
+        const recordCount = operation === 'write' ? workload.recordCount : workload.operationCount;
+        onStatus?.({
+          currentDatabase: dbDisplayName,
+          currentOperation: operation,
+          status: 'running',
+          progress,
+          message: `${scenario.name}: ${dbDisplayName} için ${recordCount.toLocaleString()} kayıt ${operationLabels[operation]} işlemi yapılıyor...`,
+          recordCount,
+          iteration,
+          total: repetitions,
+        });
+
+        let result: TestResult;
+        try {
+          result = await runTest(dbType, operation, workload, signal);
+        } catch (error: any) {
+          result = { database: dbDisplayName, operation, timeTaken: 0, recordCount: 0, dataIntegrity: false, error: error.message };
+        }
+        // A run stopped by cancellation is not a result
+        signal?.throwIfAborted();
+        results.push(result);
+        times.push(result.error ? null : result.timeTaken);
+        sloViolations.push(...checkSlo(result, operation, iteration, slo));
+
+        onStatus?.({
+          currentDatabase: dbDisplayName,
+          currentOperation: operation,
+          status: result.error ? 'error' : 'completed',
+          progress,
+          message: result.error
+            ? `${scenario.name}: ${dbDisplayName} için ${operationLabels[operation]} işlemi başarısız: ${result.error}`
+            : `${scenario.name}: ${dbDisplayName} için ${operationLabels[operation]} işlemi tamamlandı. Süre: ${result.timeTaken.toLocaleString()}ms`
+              + (result.latency ? `, p50/p99: ${result.latency.p50}/${result.latency.p99}ms, ${result.opsPerSec?.toLocaleString()} işlem/sn` : ''),
+          iteration,
+          total: repetitions,
+        });
+      }
+
+      if (repetitions > 1) {
+        repeatResults.push(summarizeRepeats(dbDisplayName, operation, times));
+      }
+    }
+  }
+
+  const runId = await recordRun(kind, workload, engines, {
+    ...(kind === 'scenario' ? { scenario: scenario.name } : {}),
+    results,
+    repeatResults,
+    mixResults: mix ? mixResults : undefined,
+  });
+
+  return { scenario: scenario.name, runId, results, repeatResults, mixResults, sloViolations };
+}
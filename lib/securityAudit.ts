@@ -0,0 +1,660 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { auth as cassandraAuth, Client as CassandraClient } from 'cassandra-driver';
+import { MongoClient } from 'mongodb';
+import { Client as CockroachClient } from 'pg';
+import { getConnectorSettings } from './dbConnectors';
+import { AuditFinding, AuditSeverity, AuditStatus, EngineAudit, SecurityAudit } from './types';
+
+type Check = Omit<AuditFinding, 'database'>;
+
+const COMPOSE_FILE = path.join(process.cwd(), 'docker-compose.yml');
+const PROBE_TIMEOUT_MS = 5000;
+
+// Points a failed check costs; a check that could not be carried out costs half
+const SEVERITY_WEIGHTS: { [severity in AuditSeverity]: number } = {
+  critical: 30,
+  high: 15,
+  medium: 8,
+};
+
+// Well-known credentials: image defaults, documentation examples and this repo's docker-compose.yml
+const CASSANDRA_DEFAULT_CREDENTIALS: [string, string][] = [['cassandra', 'cassandra']];
+const MONGO_DEFAULT_CREDENTIALS: [string, string][] = [
+  ['admin', 'admin123'],
+  ['admin', 'admin'],
+  ['admin', 'password'],
+  ['root', 'root'],
+  ['root', 'example'],
+];
+
+// MongoDB roles that reach beyond one application database
+const BROAD_MONGO_ROLES = [
+  'root',
+  '__system',
+  'clusterAdmin',
+  'userAdminAnyDatabase',
+  'dbAdminAnyDatabase',
+  'readWriteAnyDatabase',
+  'restore',
+];
+
+function isAuthenticationError(error: any): boolean {
+  return /authenticat|unauthori|password/i.test(error?.message || '');
+}
+
+function isWildcard(address: string): boolean {
+  return ['0.0.0.0', '::', '*', ''].includes(address);
+}
+
+/**
+ * Host port mappings docker-compose.yml publishes for a container port, e.g. "9042:9042" or "127.0.0.1:9042:9042";
+ * empty when there is no compose file
+ */
+async function publishedPorts(containerPort: number): Promise<{ mapping: string; allInterfaces: boolean }[]> {
+  let compose: any;
+  try {
+    compose = yaml.load(await fs.readFile(COMPOSE_FILE, 'utf8'));
+  } catch (error) {
+    return [];
+  }
+
+  const mappings: { mapping: string; allInterfaces: boolean }[] = [];
+  for (const service of Object.values<any>(compose?.services || {})) {
+    for (const port of service?.ports || []) {
+      // Short syntax is [host_ip:][published:]target[/protocol], long syntax an object
+      const mapping = typeof port === 'object'
+        ? `${port.host_ip ? `${port.host_ip}:` : ''}${port.published ?? ''}:${port.target}`
+        : String(port);
+      const parts = mapping.split('/')[0].split(':');
+      if (parseInt(parts[parts.length - 1]) !== containerPort) {
+        continue;
+      }
+      const hostIp = parts.length > 2 ? parts.slice(0, -2).join(':').replace(/^\[|\]$/g, '') : '';
+      mappings.push({ mapping, allInterfaces: isWildcard(hostIp) });
+    }
+  }
+  return mappings;
+}
+
+/**
+ * Network exposure from the address the server listens on (when the engine reports it) and the ports docker-compose.yml publishes.
+ * Inside a container the server has to listen on every interface, so published ports decide when there are any.
+ */
+async function networkCheck(containerPorts: number[], binding: string[] | null, remediation: string): Promise<Check> {
+  const mappings = (await Promise.all(containerPorts.map(publishedPorts))).flat();
+  const details: string[] = [];
+  if (binding) details.push(`Sunucu dinleme adresi: ${binding.join(', ')}`);
+  if (mappings.length > 0) details.push(`docker-compose.yml yayınları: ${mappings.map((m) => m.mapping).join(', ')}`);
+
+  let status: AuditStatus;
+  if (mappings.length > 0) {
+    status = mappings.some((m) => m.allInterfaces) ? 'fail' : 'pass';
+  } else if (binding) {
+    status = binding.some(isWildcard) ? 'fail' : 'pass';
+  } else {
+    status = 'unknown';
+    details.push('Dinleme adresi ve port yayını belirlenemedi');
+  }
+
+  return {
+    category: 'network',
+    title: 'Ağ erişimi',
+    severity: 'medium',
+    status,
+    detail: details.join('; '),
+    remediation,
+  };
+}
+
+function unknownCheck(check: Omit<Check, 'status' | 'detail'>, detail: string): Check {
+  return { ...check, status: 'unknown', detail };
+}
+
+async function openCassandra(authProvider?: cassandraAuth.AuthProvider): Promise<CassandraClient> {
+  const { cassandra } = getConnectorSettings();
+  const client = new CassandraClient({
+    contactPoints: [`${cassandra.host}:${cassandra.port}`],
+    localDataCenter: cassandra.datacenter,
+    authProvider,
+    socketOptions: { connectTimeout: PROBE_TIMEOUT_MS },
+  });
+  try {
+    await client.connect();
+    return client;
+  } catch (error) {
+    await client.shutdown().catch(() => undefined);
+    throw error;
+  }
+}
+
+async function auditCassandra(): Promise<Check[]> {
+  const { cassandra } = getConnectorSettings();
+  const checks: Check[] = [];
+  const clients: CassandraClient[] = [];
+
+  try {
+    // The connector sends no credentials and sets no sslOptions, so this is the connection the application itself gets
+    let client: CassandraClient | null = null;
+    let user: string | null = null;
+    try {
+      client = await openCassandra();
+      clients.push(client);
+    } catch (error: any) {
+      if (!isAuthenticationError(error)) {
+        throw error;
+      }
+    }
+    const anonymous = client !== null;
+    checks.push({
+      category: 'authentication',
+      title: 'Kimlik doğrulama',
+      severity: 'critical',
+      status: anonymous ? 'fail' : 'pass',
+      detail: anonymous
+        ? 'Kimlik bilgisi gönderilmeyen bağlantı kabul edildi (AllowAllAuthenticator)'
+        : 'Kimlik bilgisi gönderilmeyen bağlantı reddedildi',
+      remediation: "cassandra.yaml'da authenticator: PasswordAuthenticator ayarlayın ve dbConnectors.ts'de PlainTextAuthProvider ile uygulamaya özel bir rolle bağlanın",
+    });
+
+    const accepted: string[] = [];
+    for (const [username, password] of CASSANDRA_DEFAULT_CREDENTIALS) {
+      try {
+        const defaultClient = await openCassandra(new cassandraAuth.PlainTextAuthProvider(username, password));
+        clients.push(defaultClient);
+        accepted.push(`${username}/${password}`);
+        if (!client) {
+          client = defaultClient;
+          user = username;
+        }
+      } catch (error: any) {
+        if (!isAuthenticationError(error)) {
+          throw error;
+        }
+      }
+    }
+    checks.push({
+      category: 'default-credentials',
+      title: 'Varsayılan kimlik bilgileri',
+      severity: 'critical',
+      status: accepted.length > 0 ? 'fail' : 'pass',
+      detail: accepted.length > 0
+        ? `Kabul edildi: ${accepted.join(', ')}${anonymous ? ' (kimlik doğrulama kapalı)' : ''}`
+        : `Reddedildi: ${CASSANDRA_DEFAULT_CREDENTIALS.map(([u, p]) => `${u}/${p}`).join(', ')}`,
+      remediation: "Yeni bir süper kullanıcı rolü oluşturup cassandra rolünün parolasını değiştirin veya LOGIN = false yapın",
+    });
+
+    const tls = {
+      category: 'tls' as const,
+      title: 'TLS (aktarım şifrelemesi)',
+      severity: 'high' as const,
+      remediation: "cassandra.yaml'da client_encryption_options.enabled: true ve optional: false ayarlayın, dbConnectors.ts'de sslOptions ile bağlanın",
+    };
+    const certificate = {
+      category: 'certificate-validation' as const,
+      title: 'Sertifika doğrulama',
+      severity: 'medium' as const,
+      remediation: "dbConnectors.ts'de sslOptions: { ca: [küme CA'sı], rejectUnauthorized: true } ile sunucu sertifikasını doğrulayın",
+    };
+    const privileges = {
+      category: 'privileges' as const,
+      title: 'Bağlanan kullanıcının yetkileri',
+      severity: 'high' as const,
+      remediation: "authorizer: CassandraAuthorizer ayarlayın ve uygulama rolüne yalnızca kendi keyspace'inde SELECT/MODIFY verin",
+    };
+    const network = "docker-compose.yml'da portu 127.0.0.1:9042:9042 olarak yayınlayın veya rpc_address'i belirli bir arayüze bağlayın";
+
+    if (!client) {
+      const reason = 'Bağlanılamadığı için sunucu ayarları okunamadı';
+      checks.push(
+        { ...tls, status: 'fail', detail: 'Bağlayıcı TLS kullanmıyor' },
+        { ...certificate, status: 'fail', detail: 'Bağlayıcı TLS kullanmadığından sunucu sertifikası doğrulanmıyor' },
+        unknownCheck(privileges, reason),
+        await networkCheck([cassandra.port], null, network)
+      );
+      return checks;
+    }
+
+    // Effective cassandra.yaml values (Cassandra 4.0+)
+    let settings: Map<string, string> | null = null;
+    try {
+      const result = await client.execute('SELECT name, value FROM system_views.settings');
+      settings = new Map(result.rows.map((row) => [row.name as string, row.value as string]));
+    } catch (error) {
+      // Older versions have no system_views keyspace
+    }
+
+    const serverTls = settings?.get('client_encryption_options_enabled');
+    checks.push(
+      {
+        ...tls,
+        status: 'fail',
+        detail: `Sunucu: ${serverTls === undefined ? 'okunamadı' : serverTls === 'true' ? 'açık' : 'kapalı'}; bağlayıcı: düz metin`,
+      },
+      {
+        ...certificate,
+        status: 'fail',
+        detail: 'Bağlayıcı TLS kullanmadığından sunucu sertifikası doğrulanmıyor',
+      }
+    );
+
+    const authorizer = settings?.get('authorizer');
+    if (anonymous) {
+      checks.push({
+        ...privileges,
+        status: 'fail',
+        detail: `Anonim bağlantı tüm keyspace'lerde her işlemi yapabilir (authorizer: ${authorizer ?? 'okunamadı'})`,
+      });
+    } else {
+      try {
+        const result = await client.execute('SELECT is_superuser FROM system_auth.roles WHERE role = ?', [user], { prepare: true });
+        const superuser = result.first()?.is_superuser === true;
+        const allowAll = authorizer === 'AllowAllAuthorizer';
+        checks.push({
+          ...privileges,
+          status: superuser || allowAll ? 'fail' : 'pass',
+          detail: `${user}: ${superuser ? 'süper kullanıcı' : 'süper kullanıcı değil'}; authorizer: ${authorizer ?? 'okunamadı'}`,
+        });
+      } catch (error: any) {
+        checks.push(unknownCheck(privileges, error.message));
+      }
+    }
+
+    const rpcAddress = settings?.get('rpc_address');
+    checks.push(await networkCheck([cassandra.port], rpcAddress !== undefined ? [rpcAddress] : null, network));
+    return checks;
+  } finally {
+    await Promise.all(clients.map((client) => client.shutdown().catch(() => undefined)));
+  }
+}
+
+async function openMongo(uri: string, credentials?: [string, string]): Promise<MongoClient> {
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: PROBE_TIMEOUT_MS,
+    maxPoolSize: 1,
+    ...(credentials ? { auth: { username: credentials[0], password: credentials[1] }, authSource: 'admin' } : {}),
+  });
+  try {
+    await client.connect();
+    return client;
+  } catch (error) {
+    await client.close().catch(() => undefined);
+    throw error;
+  }
+}
+
+async function auditMongo(): Promise<Check[]> {
+  const { mongo } = getConnectorSettings();
+  const anonymousUri = mongo.uri.replace(/\/\/[^@/]*@/, '//');
+  const configuredUser = mongo.uri.match(/\/\/([^:@/]*)(?::([^@/]*))?@/);
+  const checks: Check[] = [];
+  const clients: MongoClient[] = [];
+
+  try {
+    // The connector's own connection; null when its credentials are rejected
+    let client: MongoClient | null = null;
+    try {
+      client = await openMongo(mongo.uri);
+      clients.push(client);
+    } catch (error: any) {
+      if (!isAuthenticationError(error)) {
+        throw error;
+      }
+    }
+
+    // Without credentials the handshake always succeeds, so ask for something that needs authentication
+    const anonymousClient = await openMongo(anonymousUri);
+    clients.push(anonymousClient);
+    let authEnforced: boolean | null;
+    try {
+      await anonymousClient.db('admin').command({ listDatabases: 1, nameOnly: true });
+      authEnforced = false;
+    } catch (error: any) {
+      authEnforced = isAuthenticationError(error) ? true : null;
+    }
+    checks.push({
+      category: 'authentication',
+      title: 'Kimlik doğrulama',
+      severity: 'critical',
+      status: authEnforced === null ? 'unknown' : authEnforced ? 'pass' : 'fail',
+      detail: authEnforced === null
+        ? 'Anonim listDatabases beklenmeyen bir hata verdi'
+        : authEnforced
+          ? 'Kimlik bilgisi olmadan listDatabases reddedildi'
+          : 'Kimlik bilgisi olmadan listDatabases çalıştı (--auth kapalı)',
+      remediation: 'mongod\'u security.authorization: enabled (veya --auth) ile başlatın',
+    });
+
+    const accepted: string[] = [];
+    let defaultClient: MongoClient | null = null;
+    for (const credentials of MONGO_DEFAULT_CREDENTIALS) {
+      try {
+        const probe = await openMongo(anonymousUri, credentials);
+        clients.push(probe);
+        accepted.push(credentials.join('/'));
+        defaultClient = defaultClient || probe;
+      } catch (error: any) {
+        if (!isAuthenticationError(error)) {
+          throw error;
+        }
+      }
+    }
+    const configuredIsDefault = configuredUser !== null && MONGO_DEFAULT_CREDENTIALS.some(
+      ([username, password]) => decodeURIComponent(configuredUser[1]) === username && decodeURIComponent(configuredUser[2] || '') === password
+    );
+    checks.push({
+      category: 'default-credentials',
+      title: 'Varsayılan kimlik bilgileri',
+      severity: 'critical',
+      status: accepted.length > 0 ? 'fail' : 'pass',
+      detail: (accepted.length > 0
+        ? `Kabul edildi: ${accepted.join(', ')}`
+        : `Reddedildi: ${MONGO_DEFAULT_CREDENTIALS.map((credentials) => credentials.join('/')).join(', ')}`)
+        + (configuredIsDefault ? '; MONGODB_URI varsayılan bir kullanıcı/parola çifti içeriyor' : ''),
+      remediation: "Kök kullanıcının parolasını güçlü ve gizli bir değerle değiştirin (MONGO_INITDB_ROOT_PASSWORD'ü docker-compose.yml yerine bir secret'tan verin) ve MONGODB_URI'yi güncelleyin",
+    });
+
+    // Server options need a privileged user: the connector's, a default one that worked, or anyone when auth is off
+    const adminClient = client || defaultClient || (authEnforced === false ? anonymousClient : null);
+    let parsed: any = null;
+    let optionsError = 'Yetkili bir bağlantı kurulamadığı için sunucu seçenekleri okunamadı';
+    if (adminClient) {
+      try {
+        parsed = (await adminClient.db('admin').command({ getCmdLineOpts: 1 })).parsed;
+      } catch (error: any) {
+        optionsError = error.message;
+      }
+    }
+
+    const clientTls = /[?&](tls|ssl)=true/i.test(mongo.uri);
+    const tls = {
+      category: 'tls' as const,
+      title: 'TLS (aktarım şifrelemesi)',
+      severity: 'high' as const,
+      remediation: "mongod'u net.tls.mode: requireTLS ve bir sunucu sertifikasıyla başlatın, MONGODB_URI'ye tls=true ekleyin",
+    };
+    const serverTlsMode: string | null = parsed ? parsed.net?.tls?.mode ?? parsed.net?.ssl?.mode ?? 'disabled' : null;
+    checks.push(
+      parsed || !clientTls
+        ? {
+          ...tls,
+          status: clientTls && serverTlsMode === 'requireTLS' ? 'pass' : 'fail',
+          detail: `Sunucu: ${serverTlsMode ?? optionsError}; bağlayıcı: ${clientTls ? 'TLS' : 'düz metin'}`,
+        }
+        : unknownCheck(tls, optionsError)
+    );
+
+    const insecureOptions = ['tlsAllowInvalidCertificates', 'tlsAllowInvalidHostnames', 'tlsInsecure']
+      .filter((option) => new RegExp(`[?&]${option}=true`, 'i').test(mongo.uri));
+    checks.push({
+      category: 'certificate-validation',
+      title: 'Sertifika doğrulama',
+      severity: 'medium',
+      status: clientTls && insecureOptions.length === 0 ? 'pass' : 'fail',
+      detail: !clientTls
+        ? 'Bağlayıcı TLS kullanmadığından sunucu sertifikası doğrulanmıyor'
+        : insecureOptions.length > 0
+          ? `MONGODB_URI doğrulamayı kapatıyor: ${insecureOptions.join(', ')}`
+          : 'Sunucu sertifikası ve ana bilgisayar adı doğrulanıyor',
+      remediation: "MONGODB_URI'den tlsAllowInvalidCertificates/tlsAllowInvalidHostnames/tlsInsecure seçeneklerini kaldırın, gerekirse tlsCAFile ile küme CA'sını verin",
+    });
+
+    const privileges = {
+      category: 'privileges' as const,
+      title: 'Bağlanan kullanıcının yetkileri',
+      severity: 'high' as const,
+      remediation: "Uygulama için yalnızca test_db üzerinde readWrite rolüne sahip ayrı bir kullanıcı oluşturup MONGODB_URI'de onu kullanın",
+    };
+    if (!client) {
+      checks.push(unknownCheck(privileges, 'Bağlayıcının kimlik bilgileri reddedildi'));
+    } else if (!configuredUser) {
+      checks.push({
+        ...privileges,
+        status: authEnforced === false ? 'fail' : 'unknown',
+        detail: authEnforced === false
+          ? 'Bağlayıcı kimlik bilgisi olmadan bağlanıyor ve kimlik doğrulama kapalı olduğundan her işlemi yapabilir'
+          : 'Bağlayıcı kimlik bilgisi olmadan bağlanıyor',
+      });
+    } else {
+      try {
+        const status = await client.db('admin').command({ connectionStatus: 1 });
+        const roles: { role: string; db: string }[] = status.authInfo?.authenticatedUserRoles || [];
+        const broad = roles.filter((role) =>
+          BROAD_MONGO_ROLES.includes(role.role) || (role.db === 'admin' && ['dbOwner', 'userAdmin'].includes(role.role))
+        );
+        checks.push({
+          ...privileges,
+          status: broad.length > 0 ? 'fail' : 'pass',
+          detail: `${decodeURIComponent(configuredUser[1])}: ${roles.map((role) => `${role.role}@${role.db}`).join(', ') || 'rol yok'}`,
+        });
+      } catch (error: any) {
+        checks.push(unknownCheck(privileges, error.message));
+      }
+    }
+
+    const port = parseInt(anonymousUri.match(/\/\/[^/:,?]+:(\d+)/)?.[1] || '27017');
+    const binding: string[] | null = parsed
+      ? parsed.net?.bindIpAll ? ['0.0.0.0'] : String(parsed.net?.bindIp ?? '127.0.0.1').split(',').map((ip) => ip.trim())
+      : null;
+    checks.push(await networkCheck(
+      [port],
+      binding,
+      "docker-compose.yml'da portu 127.0.0.1:27017:27017 olarak yayınlayın veya net.bindIp'i belirli arayüzlerle sınırlayın"
+    ));
+    return checks;
+  } finally {
+    await Promise.all(clients.map((client) => client.close().catch(() => undefined)));
+  }
+}
+
+async function openCockroach(overrides: { user?: string; password?: string; ssl?: false | { rejectUnauthorized: boolean } }): Promise<CockroachClient> {
+  const { cockroach } = getConnectorSettings();
+  const client = new CockroachClient({
+    host: cockroach.host,
+    port: cockroach.port,
+    user: cockroach.user,
+    password: cockroach.password,
+    ssl: cockroach.ssl,
+    database: 'defaultdb',
+    connectionTimeoutMillis: PROBE_TIMEOUT_MS,
+    ...overrides,
+  });
+  try {
+    await client.connect();
+    return client;
+  } catch (error) {
+    await client.end().catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Whether a probe connection is accepted; rejections are returned rather than thrown
+ */
+async function probeCockroach(overrides: Parameters<typeof openCockroach>[0]): Promise<{ accepted: boolean; error?: string }> {
+  try {
+    const client = await openCockroach(overrides);
+    await client.end();
+    return { accepted: true };
+  } catch (error: any) {
+    return { accepted: false, error: error.message };
+  }
+}
+
+async function auditCockroach(): Promise<Check[]> {
+  const { cockroach } = getConnectorSettings();
+  const checks: Check[] = [];
+
+  // The connector's own connection; null when its credentials are rejected
+  let client: CockroachClient | null = null;
+  try {
+    client = await openCockroach({});
+  } catch (error: any) {
+    if (!isAuthenticationError(error)) {
+      throw error;
+    }
+  }
+
+  try {
+    // An insecure cluster accepts any password without TLS
+    const wrongPassword = await probeCockroach({ password: `audit-${Date.now()}`, ssl: false });
+    checks.push({
+      category: 'authentication',
+      title: 'Kimlik doğrulama',
+      severity: 'critical',
+      status: wrongPassword.accepted ? 'fail' : 'pass',
+      detail: wrongPassword.accepted
+        ? `${cockroach.user} kullanıcısı TLS olmadan yanlış parolayla bağlanabildi (küme --insecure modda)`
+        : `Yanlış parolayla bağlantı reddedildi: ${wrongPassword.error}`,
+      remediation: 'Düğümü --insecure yerine --certs-dir ile güvenli modda başlatın (cockroach cert create-ca/create-node/create-client)',
+    });
+
+    const rootProbe = await probeCockroach({ user: 'root', password: '' });
+    const configuredIsDefault = cockroach.user === 'root' && cockroach.password === '';
+    checks.push({
+      category: 'default-credentials',
+      title: 'Varsayılan kimlik bilgileri',
+      severity: 'critical',
+      status: rootProbe.accepted || configuredIsDefault ? 'fail' : 'pass',
+      detail: (rootProbe.accepted ? 'root kullanıcısı parolasız bağlanabildi' : `Parolasız root reddedildi: ${rootProbe.error}`)
+        + (configuredIsDefault ? '; bağlayıcı parolasız root ile bağlanıyor' : ''),
+      remediation: 'Uygulama için parolalı ayrı bir SQL kullanıcısı oluşturup COCKROACHDB_USER/COCKROACHDB_PASSWORD ile kullanın; root için yalnızca istemci sertifikasıyla girişe izin verin',
+    });
+
+    // Anything but a redirect or a login prompt means the DB Console serves cluster data to anonymous visitors
+    const dbConsole = {
+      category: 'authentication' as const,
+      title: 'DB Console kimlik doğrulaması',
+      severity: 'high' as const,
+      remediation: 'Güvenli modda DB Console oturum açmayı zorunlu kılar; 8080 portunu yalnızca yerel arayüzde yayınlayın',
+    };
+    try {
+      const response = await fetch(`http://${cockroach.host}:${cockroach.httpPort}/_status/nodes`, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      checks.push({
+        ...dbConsole,
+        status: response.ok ? 'fail' : 'pass',
+        detail: response.ok
+          ? `/_status/nodes oturum açmadan döndü (HTTP ${response.status})`
+          : `/_status/nodes oturum açmadan reddedildi (HTTP ${response.status})`,
+      });
+    } catch (error: any) {
+      checks.push(unknownCheck(dbConsole, `DB Console'a ulaşılamadı: ${error.message}`));
+    }
+
+    const serverTls = await probeCockroach({ ssl: { rejectUnauthorized: false } });
+    const serverSupportsTls = serverTls.accepted || !/does not support SSL/i.test(serverTls.error || '');
+    checks.push({
+      category: 'tls',
+      title: 'TLS (aktarım şifrelemesi)',
+      severity: 'high',
+      status: cockroach.ssl && serverSupportsTls ? 'pass' : 'fail',
+      detail: `Sunucu: ${serverSupportsTls ? 'TLS destekliyor' : 'TLS desteklemiyor'}; bağlayıcı: ${cockroach.ssl ? 'TLS' : 'düz metin'}`,
+      remediation: 'Kümeyi güvenli modda çalıştırın ve COCKROACHDB_SSL=true ayarlayın',
+    });
+
+    let certificateDetail: string;
+    if (!cockroach.ssl) {
+      certificateDetail = 'Bağlayıcı TLS kullanmadığından sunucu sertifikası doğrulanmıyor';
+    } else {
+      const strict = serverSupportsTls ? await probeCockroach({ ssl: { rejectUnauthorized: true } }) : null;
+      const chainVerifies = strict !== null && (strict.accepted || isAuthenticationError({ message: strict.error }));
+      certificateDetail = (cockroach.ssl.rejectUnauthorized ? 'Bağlayıcı sertifikayı doğruluyor' : 'Bağlayıcı rejectUnauthorized: false ile sertifikayı doğrulamıyor')
+        + (strict ? `; sunucu sertifikası sistem CA'larıyla ${chainVerifies ? 'doğrulanabiliyor' : `doğrulanamıyor (${strict.error})`}` : '');
+    }
+    checks.push({
+      category: 'certificate-validation',
+      title: 'Sertifika doğrulama',
+      severity: 'medium',
+      status: cockroach.ssl && cockroach.ssl.rejectUnauthorized ? 'pass' : 'fail',
+      detail: certificateDetail,
+      remediation: "dbConnectors.ts'de ssl: { ca: [küme CA'sı], rejectUnauthorized: true } kullanın",
+    });
+
+    const privileges = {
+      category: 'privileges' as const,
+      title: 'Bağlanan kullanıcının yetkileri',
+      severity: 'high' as const,
+      remediation: "Uygulama kullanıcısına admin rolü vermeyin; yalnızca test_db üzerinde gerekli yetkileri GRANT edin",
+    };
+    if (!client) {
+      checks.push(unknownCheck(privileges, 'Bağlayıcının kimlik bilgileri reddedildi'));
+    } else {
+      try {
+        const result = await client.query(
+          "SELECT current_user AS username, pg_has_role(current_user, 'admin', 'MEMBER') AS admin"
+        );
+        const { username, admin } = result.rows[0];
+        checks.push({
+          ...privileges,
+          status: admin || username === 'root' ? 'fail' : 'pass',
+          detail: `${username}: ${username === 'root' ? 'root' : admin ? 'admin rolünün üyesi' : 'admin rolünün üyesi değil'}`,
+        });
+      } catch (error: any) {
+        checks.push(unknownCheck(privileges, error.message));
+      }
+    }
+
+    // CockroachDB does not report its listen address over SQL; the HBA rules say which client addresses may log in
+    const network = await networkCheck(
+      [cockroach.port, cockroach.httpPort],
+      null,
+      "docker-compose.yml'da 26257 ve 8080 portlarını 127.0.0.1 üzerinde yayınlayın veya --listen-addr/--http-addr ile arayüzü sınırlayın; server.host_based_authentication.configuration ile istemci adreslerini kısıtlayın"
+    );
+    if (client) {
+      try {
+        const result = await client.query('SHOW CLUSTER SETTING server.host_based_authentication.configuration');
+        const rules = String(Object.values(result.rows[0] || {})[0] ?? '').trim();
+        network.detail += `; HBA kuralları: ${rules || 'varsayılan (her adrese izin verir)'}`;
+      } catch (error) {
+        // Reading cluster settings needs admin or MODIFYCLUSTERSETTING
+      }
+    }
+    checks.push(network);
+    return checks;
+  } finally {
+    await client?.end().catch(() => undefined);
+  }
+}
+
+function score(findings: AuditFinding[]): number {
+  const penalty = findings.reduce((total, finding) => {
+    if (finding.status === 'fail') return total + SEVERITY_WEIGHTS[finding.severity];
+    if (finding.status === 'unknown') return total + SEVERITY_WEIGHTS[finding.severity] / 2;
+    return total;
+  }, 0);
+  return Math.max(0, Math.round(100 - penalty));
+}
+
+const ENGINES: { database: string; audit: () => Promise<Check[]> }[] = [
+  { database: 'Cassandra', audit: auditCassandra },
+  { database: 'MongoDB', audit: auditMongo },
+  { database: 'CockroachDB', audit: auditCockroach },
+];
+
+/**
+ * Probe every engine's deployment for authentication, default credentials, TLS, certificate validation,
+ * the connecting user's privileges and network exposure, and score each engine from 100 down by failed checks
+ */
+export async function runSecurityAudit(): Promise<SecurityAudit> {
+  const engines = await Promise.all(
+    ENGINES.map(async ({ database, audit }): Promise<EngineAudit> => {
+      try {
+        const findings = (await audit()).map((check) => ({ database, ...check }));
+        return { database, reachable: true, score: score(findings), findings };
+      } catch (error: any) {
+        return { database, reachable: false, score: null, findings: [], error: error.message };
+      }
+    })
+  );
+
+  const scores = engines.flatMap((engine) => (engine.score === null ? [] : [engine.score]));
+  return {
+    auditedAt: new Date().toISOString(),
+    score: scores.length > 0 ? Math.round(scores.reduce((sum, value) => sum + value, 0) / scores.length) : null,
+    engines,
+  };
+}
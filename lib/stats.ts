@@ -0,0 +1,250 @@
+import { OperationType, RepeatComparison, RepeatTestResult } from './types';
+
+/**
+ * Arithmetic mean; 0 for no samples
+ */
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Sample standard deviation (n - 1); 0 for fewer than two samples
+ */
+export function sampleStddev(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Two-sided 95% critical values of Student's t for 1..30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/**
+ * Two-sided 95% critical value of Student's t; fractional degrees of freedom round down, large ones use the normal value
+ */
+export function tCritical95(degreesOfFreedom: number): number {
+  const df = Math.max(1, Math.floor(degreesOfFreedom));
+  return df <= T_CRITICAL_95.length ? T_CRITICAL_95[df - 1] : 1.96;
+}
+
+/**
+ * Welch 95% confidence interval for mean(head) - mean(base); null when either side has fewer than two samples
+ */
+export function differenceInterval95(base: number[], head: number[]): { low: number; high: number } | null {
+  if (base.length < 2 || head.length < 2) {
+    return null;
+  }
+  const baseVariance = sampleStddev(base) ** 2 / base.length;
+  const headVariance = sampleStddev(head) ** 2 / head.length;
+  const standardError = Math.sqrt(baseVariance + headVariance);
+  const difference = mean(head) - mean(base);
+  if (standardError === 0) {
+    return { low: difference, high: difference };
+  }
+
+  // Welch-Satterthwaite degrees of freedom
+  const df = (baseVariance + headVariance) ** 2
+    / (baseVariance ** 2 / (base.length - 1) + headVariance ** 2 / (head.length - 1));
+  const margin = tCritical95(df) * standardError;
+  return { low: difference - margin, high: difference + margin };
+}
+
+/**
+ * Quantile of ascending values with linear interpolation between closest ranks
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/**
+ * Student-t 95% confidence interval of the mean; null for fewer than two samples
+ */
+export function meanInterval95(values: number[]): { low: number; high: number } | null {
+  if (values.length < 2) {
+    return null;
+  }
+  const margin = tCritical95(values.length - 1) * (sampleStddev(values) / Math.sqrt(values.length));
+  return { low: mean(values) - margin, high: mean(values) + margin };
+}
+
+/**
+ * Indices of values outside Tukey's fences (Q1 - 1.5 IQR, Q3 + 1.5 IQR); needs at least four samples
+ */
+export function iqrOutliers(values: number[]): number[] {
+  if (values.length < 4) {
+    return [];
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  return values.flatMap((value, index) => (value < q1 - fence || value > q3 + fence ? [index] : []));
+}
+
+// Up to this many sample pairs without ties the exact U distribution is used instead of the normal approximation
+const EXACT_U_MAX_PAIRS = 400;
+
+/**
+ * Ranks 1..n of the pooled samples, ties sharing their average rank
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    for (let i = start; i <= end; i++) {
+      ranks[order[i].index] = (start + end) / 2 + 1;
+    }
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * P(U <= u) under the null hypothesis, counting the orderings of m and n samples with each U value
+ */
+function exactUCdf(u: number, m: number, n: number): number {
+  // previous[j][k]: orderings of i - 1 samples from the first group and j from the second with U = k
+  let previous: number[][] = Array.from({ length: n + 1 }, () => [1]);
+  for (let i = 1; i <= m; i++) {
+    const current: number[][] = [[1]];
+    for (let j = 1; j <= n; j++) {
+      const row = new Array<number>(i * j + 1).fill(0);
+      // The largest sample is from the first group (beating all j of the second) or from the second
+      previous[j].forEach((count, k) => (row[k + j] += count));
+      current[j - 1].forEach((count, k) => (row[k] += count));
+      current.push(row);
+    }
+    previous = current;
+  }
+  const distribution = previous[n];
+  const total = distribution.reduce((sum, count) => sum + count, 0);
+  let below = 0;
+  for (let k = 0; k <= Math.floor(u); k++) {
+    below += distribution[k];
+  }
+  return below / total;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided Mann-Whitney U test. `u` counts the pairs where the sample from `a` is larger (ties count half).
+ * Small samples without ties use the exact distribution, others the normal approximation with tie and continuity correction.
+ */
+export function mannWhitneyU(a: number[], b: number[]): { u: number; pValue: number } {
+  const m = a.length;
+  const n = b.length;
+  if (m === 0 || n === 0) {
+    return { u: 0, pValue: 1 };
+  }
+
+  const ranks = rank([...a, ...b]);
+  const rankSumA = ranks.slice(0, m).reduce((sum, r) => sum + r, 0);
+  const u = rankSumA - (m * (m + 1)) / 2;
+  const smallerU = Math.min(u, m * n - u);
+
+  const tieGroups = new Map<number, number>();
+  [...a, ...b].forEach((value) => tieGroups.set(value, (tieGroups.get(value) ?? 0) + 1));
+  const hasTies = tieGroups.size < m + n;
+
+  if (!hasTies && m * n <= EXACT_U_MAX_PAIRS) {
+    return { u, pValue: Math.min(1, 2 * exactUCdf(smallerU, m, n)) };
+  }
+
+  const total = m + n;
+  const tieTerm = Array.from(tieGroups.values()).reduce((sum, t) => sum + (t ** 3 - t), 0);
+  const variance = ((m * n) / 12) * (total + 1 - tieTerm / (total * (total - 1)));
+  if (variance <= 0) {
+    return { u, pValue: 1 };
+  }
+  const z = (Math.abs(u - (m * n) / 2) - 0.5) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))) };
+}
+
+/**
+ * Summarise the run times of one engine and operation across repetitions; failed runs are null in `times`,
+ * counted in `failures` and left out of every statistic
+ */
+export function summarizeRepeats(database: string, operation: OperationType, times: (number | null)[]): RepeatTestResult {
+  const validTimes = times.filter((t): t is number => t !== null);
+  const average = mean(validTimes);
+  const stddev = sampleStddev(validTimes);
+  const outliers = iqrOutliers(validTimes);
+
+  // Outlier positions refer to iterations, failed ones included
+  const iterations = times.flatMap((t, index) => (t !== null ? [index] : []));
+  return {
+    database,
+    operation,
+    times,
+    failures: times.length - validTimes.length,
+    average,
+    min: validTimes.length > 0 ? Math.min(...validTimes) : 0,
+    max: validTimes.length > 0 ? Math.max(...validTimes) : 0,
+    median: median(validTimes),
+    stddev,
+    cv: average > 0 ? (stddev / average) * 100 : 0,
+    ci95: meanInterval95(validTimes),
+    outliers: outliers.map((index) => iterations[index]),
+  };
+}
+
+/**
+ * Pairwise Mann-Whitney U tests between engines on the same operation, faster (lower median) engine first
+ */
+export function compareRepeatResults(results: RepeatTestResult[], alpha = 0.05): RepeatComparison[] {
+  const comparisons: RepeatComparison[] = [];
+  results.forEach((first, i) => {
+    results.slice(i + 1).forEach((second) => {
+      if (first.operation !== second.operation) {
+        return;
+      }
+      const [faster, slower] = first.median <= second.median ? [first, second] : [second, first];
+      const fasterTimes = faster.times.filter((t): t is number => t !== null);
+      const slowerTimes = slower.times.filter((t): t is number => t !== null);
+      if (fasterTimes.length === 0 || slowerTimes.length === 0) {
+        return;
+      }
+
+      const { u, pValue } = mannWhitneyU(fasterTimes, slowerTimes);
+      comparisons.push({
+        operation: first.operation,
+        faster: faster.database,
+        slower: slower.database,
+        speedup: faster.median > 0 ? slower.median / faster.median : 1,
+        u,
+        pValue,
+        significant: pValue < alpha,
+      });
+    });
+  });
+  return comparisons;
+}
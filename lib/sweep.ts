@@ -0,0 +1,33 @@
+import { runTest } from './runTest';
+import { DatabaseType, OperationType, SweepPoint, WorkloadConfig } from './types';
+
+export const DEFAULT_SWEEP_LEVELS = [1, 8, 64, 256];
+
+/**
+ * Run the same workload at each concurrency level, calling `onPoint` as every level completes
+ */
+export async function runSweep(
+  dbType: DatabaseType,
+  operation: OperationType,
+  config: WorkloadConfig,
+  levels: number[] = DEFAULT_SWEEP_LEVELS,
+  onPoint?: (point: SweepPoint) => void
+): Promise<SweepPoint[]> {
+  const points: SweepPoint[] = [];
+
+  for (const concurrency of levels) {
+    const result = await runTest(dbType, operation, { ...config, concurrency });
+    const point: SweepPoint = {
+      database: result.database,
+      operation,
+      concurrency,
+      opsPerSec: result.opsPerSec || 0,
+      latency: result.latency,
+      error: result.error,
+    };
+    points.push(point);
+    onPoint?.(point);
+  }
+
+  return points;
+}
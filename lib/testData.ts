@@ -0,0 +1,21 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TestRecord } from './types';
+
+/**
+ * Generate test data for user IDs start+1 .. start+count
+ */
+export function generateTestData(start: number, count: number, payloadSize: number): TestRecord[] {
+  const records: TestRecord[] = [];
+  for (let i = start; i < start + count; i++) {
+    records.push({
+      id: uuidv4(),
+      user_id: i + 1,
+      name: `User ${i + 1}`,
+      email: `user${i + 1}@example.com`,
+      age: 20 + (i % 50),
+      created_at: new Date(),
+      data: `Test data for user ${i + 1}`.padEnd(payloadSize, '.').slice(0, payloadSize),
+    });
+  }
+  return records;
+}
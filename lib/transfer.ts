@@ -0,0 +1,123 @@
+import { connectAdapter, createAdapter } from './adapters';
+import { createHistogram, measure, summarizeHistogram } from './histogram';
+import { createKeyChooser, createRandom } from './keyChooser';
+import { runBounded } from './loadGenerator';
+import { DEFAULT_WORKLOAD_CONFIG } from './workloadConfig';
+import { DatabaseAdapter, DatabaseType, TransferResult, WorkloadConfig } from './types';
+
+const INITIAL_BALANCE = 1000;
+const MAX_TRANSFER_AMOUNT = 100;
+
+/**
+ * Bank-transfer workload: `operationCount` transfers between accounts picked with the configured key distribution,
+ * followed by an invariant check that no money was created or destroyed and no account was overdrawn
+ */
+export async function runTransferWorkload(
+  dbType: DatabaseType,
+  config: WorkloadConfig = DEFAULT_WORKLOAD_CONFIG
+): Promise<TransferResult> {
+  const histogram = createHistogram();
+  const expectedTotal = config.accountCount * INITIAL_BALANCE;
+  let adapter: DatabaseAdapter | undefined;
+  let startTime = Date.now();
+
+  try {
+    adapter = await connectAdapter(dbType, config);
+    const db = adapter;
+
+    // Report a deployment that cannot run transactions up front instead of failing every transfer
+    const unsupported = await db.transferUnsupportedReason();
+    if (unsupported) {
+      return {
+        database: db.displayName,
+        timeTaken: 0,
+        transfers: 0,
+        committed: 0,
+        aborted: 0,
+        retries: 0,
+        errors: 0,
+        opsPerSec: 0,
+        latency: summarizeHistogram(histogram),
+        expectedTotal,
+        actualTotal: 0,
+        invariantViolations: 0,
+        consistency: db.consistencyProfile(),
+        unsupported,
+      };
+    }
+
+    await db.resetAccounts(config.accountCount, INITIAL_BALANCE);
+
+    const random = createRandom(config.seed);
+    const chooser = createKeyChooser(config.keyDistribution, random);
+    // Draw all pairs up front so the sequence only depends on the seed, not on completion order
+    const transfers = Array.from({ length: config.operationCount }, () => {
+      const from = chooser.nextIndex(config.accountCount);
+      let to = chooser.nextIndex(config.accountCount);
+      if (to === from) {
+        to = (from + 1 + Math.floor(random() * (config.accountCount - 1))) % config.accountCount;
+      }
+      return { from, to, amount: 1 + Math.floor(random() * MAX_TRANSFER_AMOUNT) };
+    });
+
+    let committed = 0;
+    let aborted = 0;
+    let retries = 0;
+    let errors = 0;
+    let lastError: string | undefined;
+
+    startTime = Date.now();
+    await runBounded(transfers.length, config.concurrency, async (index) => {
+      const { from, to, amount } = transfers[index];
+      try {
+        const attempt = await measure(histogram, () => db.transfer(from, to, amount));
+        retries += attempt.retries;
+        if (attempt.committed) {
+          committed++;
+        } else {
+          aborted++;
+        }
+      } catch (error: any) {
+        errors++;
+        lastError = error.message;
+      }
+    });
+    const timeTaken = Date.now() - startTime;
+
+    const check = await db.checkAccounts();
+    const invariantViolations = (check.total !== expectedTotal ? 1 : 0) + check.negative;
+
+    return {
+      database: db.displayName,
+      timeTaken,
+      transfers: transfers.length,
+      committed,
+      aborted,
+      retries,
+      errors,
+      opsPerSec: timeTaken > 0 ? Math.round((committed / timeTaken) * 1000) : 0,
+      latency: summarizeHistogram(histogram),
+      expectedTotal,
+      actualTotal: check.total,
+      invariantViolations,
+      consistency: db.consistencyProfile(),
+      ...(errors > 0 ? { error: `${errors} transfers failed: ${lastError}` } : {}),
+    };
+  } catch (error: any) {
+    return {
+      database: adapter?.displayName ?? createAdapter(dbType).displayName,
+      timeTaken: Date.now() - startTime,
+      transfers: 0,
+      committed: 0,
+      aborted: 0,
+      retries: 0,
+      errors: 0,
+      opsPerSec: 0,
+      latency: summarizeHistogram(histogram),
+      expectedTotal,
+      actualTotal: 0,
+      invariantViolations: 0,
+      error: error.message,
+    };
+  }
+}
@@ -1,5 +1,84 @@
 export type DatabaseType = 'cassandra' | 'mongo' | 'cockroach';
-export type OperationType = 'read' | 'write' | 'update';
+export type OperationType = 'read' | 'write' | 'update' | 'delete' | 'scan';
+
+export type KeyDistribution = 'sequential' | 'uniform' | 'zipfian' | 'hotspot' | 'latest';
+
+export type LoadMode = 'closed' | 'open';
+
+// 'truncate' empties test_data before every write run so runs start from the same dataset
+export type RunIsolation = 'shared' | 'truncate';
+
+// How a batch of records is written; each engine supports its own subset
+export type WriteStrategy =
+  | 'concurrent' | 'unlogged-batch' | 'logged-batch' | 'execute-concurrent' // Cassandra
+  | 'insert-many' | 'bulk-write' // MongoDB
+  | 'single-row' | 'multi-row' | 'copy'; // CockroachDB
+
+// Times one row statement of a batch write; only strategies that issue a statement per row call it
+export type RowTimer = <T>(call: () => Promise<T>) => Promise<T>;
+
+// How a hot-key counter is incremented; each engine supports its own subset
+export type IncrementStrategy =
+  | 'counter' | 'lwt' // Cassandra counter column, or compare-and-set on an INT column
+  | 'inc' // MongoDB $inc
+  | 'increment' // CockroachDB UPDATE ... SET c = c + 1
+  | 'read-modify-write'; // MongoDB/CockroachDB: read the value, then write value + 1
+
+// Consistency/durability trade-off applied to an engine's connection; each engine supports its own subset
+export type ConsistencyProfile =
+  | 'one' | 'quorum' | 'all' // Cassandra consistency level for reads and writes
+  | 'w1' | 'majority' | 'secondary-read' // MongoDB w:1 + local reads, w:majority with journal + majority reads, or majority writes with secondary reads
+  | 'serializable' | 'read-committed' | 'follower-read'; // CockroachDB isolation, or stale AS OF SYSTEM TIME reads
+
+export interface WorkloadConfig {
+  recordCount: number; // records inserted by a write run
+  operationCount: number; // reads/updates issued by a read or update run
+  batchSize: number; // records per insert batch
+  concurrency: number; // maximum operations in flight
+  payloadSize: number; // bytes in the data column
+  keyDistribution: KeyDistribution;
+  seed: number; // seeds the key chooser so runs are repeatable
+  mode: LoadMode; // closed: count-based, open: fixed-rate schedule
+  targetOpsPerSec: number; // open mode only
+  durationSec: number; // open mode only
+  warmupOperations: number; // discarded calls before measurement, 0 disables warm-up
+  steadyStateThreshold: number; // % throughput variation that ends warm-up early, 0 disables detection
+  accountCount: number; // accounts in the transfer workload
+  hotKeyCount: number; // rows shared by every worker in the contention test
+  incrementStrategies: Record<DatabaseType, IncrementStrategy>;
+  isolation: RunIsolation;
+  writeStrategies: Record<DatabaseType, WriteStrategy>;
+  consistencyProfiles: Record<DatabaseType, ConsistencyProfile>;
+  // Connection pools; changing a value reconnects that engine on the next run
+  cassandraCoreConnectionsPerHost: number;
+  mongoMinPoolSize: number;
+  mongoMaxPoolSize: number;
+  cockroachPoolSize: number;
+}
+
+export type ConnectionConfig = Pick<
+  WorkloadConfig,
+  'cassandraCoreConnectionsPerHost' | 'mongoMinPoolSize' | 'mongoMaxPoolSize' | 'cockroachPoolSize' | 'consistencyProfiles'
+>;
+
+// Effective pool settings of one engine's connection, keyed by the driver's option name
+export type PoolSettings = { [setting: string]: number };
+
+/**
+ * Endpoints and credentials the connectors use, as read from the environment. Server-side only: contains passwords.
+ */
+export interface ConnectorSettings {
+  cassandra: { host: string; port: number; datacenter: string };
+  mongo: { uri: string };
+  cockroach: {
+    host: string;
+    port: number;
+    httpPort: number; // DB Console
+    user: string;
+    password: string;
+    ssl: false | { rejectUnauthorized: boolean };
+  };
+}
 
 export interface TestRecord {
   id: string;
@@ -11,18 +90,211 @@ export interface TestRecord {
   data: string;
 }
 
+export interface LatencyStats {
+  count: number;
+  min: number; // milliseconds
+  max: number;
+  mean: number;
+  stddev: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  p999: number;
+}
+
+export type RecordKey = Pick<TestRecord, 'id' | 'user_id'>;
+
+export interface OpenLoopStats {
+  targetOpsPerSec: number;
+  durationSec: number;
+  scheduled: number;
+  completed: number;
+  late: number; // started behind schedule
+  missed: number; // never started within the run window
+  errors: number;
+}
+
+export interface WarmupStats {
+  operations: number;
+  timeTaken: number; // milliseconds
+  steadyState: boolean; // warm-up ended because throughput stabilised
+}
+
+/**
+ * Row-level integrity counts; the run is intact when all three counts are zero
+ */
+export interface IntegrityReport {
+  checked: number; // rows compared
+  missing: number; // expected rows not found
+  extra: number; // rows that should not exist (unknown, duplicated or deleted)
+  mismatched: number; // rows whose content (or scan order) differs from what was expected
+  digest?: string; // XOR of per-row SHA-256 hashes as stored
+  expectedDigest?: string; // XOR of per-row SHA-256 hashes as written
+}
+
 export interface TestResult {
   database: string;
   operation: OperationType;
   timeTaken: number; // milliseconds
   recordCount: number;
+  dataIntegrity: boolean; // no integrity violations
+  integrity?: IntegrityReport;
+  latency?: LatencyStats; // per-call latency distribution; write runs record one call per batch
+  rowLatency?: LatencyStats; // per-row statement latency, write runs with a per-row strategy only
+  opsPerSec?: number;
+  openLoop?: OpenLoopStats;
+  writeStrategy?: WriteStrategy; // write runs only
+  pool?: PoolSettings;
+  consistency?: ConsistencyProfile;
+  setupTime?: number; // connection and schema setup, milliseconds, not included in timeTaken
+  warmup?: WarmupStats;
+  error?: string;
+}
+
+export interface SweepPoint {
+  database: string;
+  operation: OperationType;
+  concurrency: number;
+  opsPerSec: number;
+  latency?: LatencyStats;
+  error?: string;
+}
+
+export type YcsbWorkload = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+export type MixOperation = 'read' | 'update' | 'insert' | 'scan' | 'readModifyWrite';
+
+export interface MixOperationResult {
+  operation: MixOperation;
+  count: number;
+  errors: number;
+  latency: LatencyStats;
+}
+
+export interface WorkloadMixResult {
+  database: string;
+  workload: YcsbWorkload;
+  timeTaken: number; // milliseconds
+  operationCount: number;
+  opsPerSec: number;
   dataIntegrity: boolean;
+  latency: LatencyStats; // aggregate over all operations
+  pool?: PoolSettings;
+  consistency?: ConsistencyProfile;
+  operations: MixOperationResult[];
+  error?: string;
+}
+
+export interface TransferResult {
+  database: string;
+  timeTaken: number; // milliseconds
+  transfers: number; // attempted
+  committed: number;
+  aborted: number; // rolled back for insufficient funds or after exhausting retries
+  retries: number; // transaction restarts: serialization failures, write conflicts, failed LWT conditions
+  errors: number;
+  opsPerSec: number; // committed transfers per second
+  latency: LatencyStats;
+  expectedTotal: number;
+  actualTotal: number;
+  invariantViolations: number; // total balance mismatch plus accounts left with a negative balance
+  consistency?: ConsistencyProfile;
+  unsupported?: string; // why the deployment cannot run the workload; no transfers were attempted
+  error?: string;
+}
+
+export interface ContentionResult {
+  database: string;
+  strategy: IncrementStrategy;
+  hotKeys: number;
+  timeTaken: number; // milliseconds
+  increments: number; // attempted
+  errors: number;
+  retries: number; // failed compare-and-set attempts or transaction restarts
+  opsPerSec: number; // successful increments per second
+  latency: LatencyStats;
+  expectedTotal: number; // successful increments
+  actualTotal: number; // sum of the counters read back after the run
+  lostUpdates: number; // expectedTotal - actualTotal; negative when increments were applied twice
+  consistency?: ConsistencyProfile;
   error?: string;
 }
 
+export type InjectionAttack = 'auth-bypass' | 'data-leak' | 'destructive';
+export type QueryMode = 'vulnerable' | 'safe';
+export type PayloadCategory = 'tautology' | 'stacked' | 'comment' | 'union' | 'operator' | 'type-confusion' | 'cql';
+export type InjectionVerdict = 'blocked' | 'exploited' | 'errored';
+
+/**
+ * Input an injection payload sends to the sandbox, as a client would submit it
+ */
+export interface InjectionInput {
+  username: string;
+  password?: string; // set for login (auth-bypass) payloads, absent for lookups
+}
+
+export interface InjectionPayload {
+  id: string;
+  category: PayloadCategory;
+  attack: InjectionAttack; // what the payload tries to achieve
+  description: string;
+  input: InjectionInput;
+}
+
+/**
+ * What one query builder actually did with a payload, measured against the sandbox afterwards
+ */
+export interface InjectionOutcome {
+  mode: QueryMode;
+  verdict: InjectionVerdict; // exploited if any damage below was measured, errored if the query failed, blocked otherwise
+  rowsReturned: number;
+  expectedRows: number; // rows an exact match on the literal input returns
+  leakedRows: number; // rowsReturned beyond expectedRows
+  authBypassed: boolean; // a login returned a user without matching credentials
+  tableDropped: boolean; // the sandbox table or collection no longer exists
+  rowsRemoved: number; // seeded rows missing after the query
+  rowsAltered: number; // seeded rows changed, plus rows that were not seeded
+  exploited: boolean;
+  rejected?: string; // the safe builder refused the input before querying
+  error?: string; // failed query; not an exploit by itself
+}
+
+/**
+ * One cell of the payload x engine matrix
+ */
+export interface InjectionLabResult {
+  payloadId: string;
+  database: string;
+  vulnerable: InjectionOutcome | null; // null when the sandbox could not be set up
+  safe: InjectionOutcome | null;
+  error?: string;
+}
+
+export interface InjectionMatrix {
+  engines: string[];
+  payloads: InjectionPayload[];
+  results: InjectionLabResult[];
+}
+
+/**
+ * Outcome of a single transfer call
+ */
+export interface TransferAttempt {
+  committed: boolean;
+  retries: number;
+}
+
+/**
+ * Aggregate state of the accounts table, used for the invariant check
+ */
+export interface AccountCheck {
+  accounts: number;
+  total: number;
+  negative: number;
+}
+
 export interface TestStatus {
   currentDatabase: string;
-  currentOperation: OperationType;
+  currentOperation: OperationType | `ycsb-${YcsbWorkload}` | 'transfer' | 'contention';
   status: 'starting' | 'running' | 'verifying' | 'completed' | 'error';
   progress: number; // 0-100
   message: string;
@@ -34,8 +306,250 @@ export interface TestStatus {
 export interface RepeatTestResult {
   database: string;
   operation: OperationType;
-  times: number[]; // Array of time taken for each run
+  times: (number | null)[]; // Time taken by each run, null for failed runs
+  failures: number; // Runs that threw or reported an error; excluded from every statistic below
   average: number;
   min: number;
   max: number;
+  median: number;
+  stddev: number; // Sample standard deviation
+  cv: number; // Coefficient of variation, stddev / average in percent
+  ci95: { low: number; high: number } | null; // 95% confidence interval of the mean, null under two successful runs
+  outliers: number[]; // Runs (indices into times) outside the Tukey fences Q1 - 1.5 IQR, Q3 + 1.5 IQR
+}
+
+/**
+ * Mann-Whitney U test of two engines' run times on one operation
+ */
+export interface RepeatComparison {
+  operation: OperationType;
+  faster: string; // Database with the lower median time
+  slower: string;
+  speedup: number; // Median of the slower engine / median of the faster one
+  u: number; // Pairs where the faster engine's time is larger (ties count half); small U means clearly faster
+  pValue: number; // Two-sided
+  significant: boolean; // pValue below 0.05
+}
+
+/**
+ * Contract every database engine implements so the generic test runner
+ * can drive it without engine-specific branches.
+ */
+export interface DatabaseAdapter {
+  type: DatabaseType;
+  displayName: string;
+  // Without a connection config an existing connection is reused as is
+  connect(config?: ConnectionConfig): Promise<void>;
+  poolSettings(): PoolSettings;
+  consistencyProfile(): ConsistencyProfile | undefined;
+  serverVersion(): Promise<string>;
+  ensureSchema(): Promise<void>;
+  // Without a strategy the engine's default write path is used; per-row strategies time each statement with timeRow
+  insertBatch(records: TestRecord[], strategy?: WriteStrategy, timeRow?: RowTimer): Promise<void>;
+  listKeys(limit: number): Promise<RecordKey[]>;
+  readById(id: string): Promise<TestRecord | null>;
+  updateById(id: string, changes: Partial<Omit<TestRecord, 'id'>>): Promise<void>;
+  deleteById(id: string): Promise<void>;
+  // Yields up to `limit` records page by page, starting at `start` (or the beginning of the table)
+  scan(start: RecordKey | null, limit: number, pageSize: number): AsyncIterable<TestRecord[]>;
+  truncate(): Promise<void>;
+  count(): Promise<number>;
+  // Largest user_id in test_data, or null when it is empty
+  maxUserId(): Promise<number | null>;
+  // Why the deployment cannot run atomic transfers, or null when it can
+  transferUnsupportedReason(): Promise<string | null>;
+  // Bank-transfer workload on a separate accounts table, ids 0..count-1
+  resetAccounts(count: number, initialBalance: number): Promise<void>;
+  // Atomically move `amount` between two accounts; never overdraws `from`
+  transfer(from: number, to: number, amount: number): Promise<TransferAttempt>;
+  checkAccounts(): Promise<AccountCheck>;
+  // Contention workload on a separate table of `count` hot counters, ids 0..count-1, all starting at zero
+  resetCounters(count: number, strategy?: IncrementStrategy): Promise<void>;
+  // Add one to a counter and report how many retries it took
+  increment(id: number, strategy?: IncrementStrategy): Promise<number>;
+  readCounters(count: number, strategy?: IncrementStrategy): Promise<number[]>;
+  close(): Promise<void>;
+}
+
+// Which endpoint produced a stored run
+export type RunKind = 'single' | 'all' | 'repeat' | 'scenario' | 'ycsb' | 'sweep' | 'transfer' | 'contention';
+
+export interface EngineVersion {
+  database: string;
+  version: string | null; // null when the engine could not be reached
+  error?: string;
+}
+
+export interface HostInfo {
+  hostname: string;
+  platform: string;
+  release: string;
+  arch: string;
+  cpus: number;
+  cpuModel: string;
+  totalMemory: number; // bytes
+  nodeVersion: string;
+}
+
+/**
+ * One persisted run with everything needed to reproduce and compare it
+ */
+export interface RunRecord {
+  id: string;
+  timestamp: string; // ISO 8601
+  kind: RunKind;
+  gitCommit: string | null;
+  config: WorkloadConfig;
+  engines: EngineVersion[];
+  host: HostInfo;
+  scenario?: string; // scenario name, scenario runs only
+  results: TestResult[];
+  repeatResults: RepeatTestResult[];
+  mixResults?: WorkloadMixResult[];
+  sweepPoints?: SweepPoint[];
+  transferResults?: TransferResult[];
+  contentionResults?: ContentionResult[];
+}
+
+export type RunSummary = Pick<RunRecord, 'id' | 'timestamp' | 'kind' | 'gitCommit' | 'engines' | 'scenario'> & {
+  resultCount: number;
+  repeatResultCount: number;
+};
+
+/**
+ * Service-level objectives a scenario checks every result against; unset thresholds are not checked
+ */
+export interface SloThresholds {
+  maxP50?: number; // milliseconds
+  maxP95?: number;
+  maxP99?: number;
+  minOpsPerSec?: number;
+  maxTimeTaken?: number; // milliseconds
+  requireIntegrity?: boolean;
+}
+
+/**
+ * A benchmark scenario as described by a scenario file, after validation and defaults
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  engines: DatabaseType[];
+  operations: OperationType[]; // empty when the scenario runs a YCSB mix
+  mix?: YcsbWorkload;
+  repetitions: number;
+  workload: WorkloadConfig;
+  slo: SloThresholds;
+  operationSlo: Partial<Record<OperationType, SloThresholds>>; // overrides slo per operation
+}
+
+export interface SloViolation {
+  database: string;
+  operation: OperationType | `ycsb-${YcsbWorkload}`;
+  iteration: number; // 1-based repetition
+  metric: keyof SloThresholds;
+  limit: number | boolean;
+  actual: number | boolean;
+}
+
+export interface ScenarioResult {
+  scenario: string;
+  runId?: string; // ID in the run history, when it could be stored
+  results: TestResult[];
+  repeatResults: RepeatTestResult[]; // one per engine and operation when the scenario repeats
+  mixResults: WorkloadMixResult[];
+  sloViolations: SloViolation[];
+}
+
+export type ComparisonMetric = 'opsPerSec' | 'timeTaken' | 'p50' | 'p95' | 'p99';
+export type ChangeVerdict = 'regression' | 'improvement' | 'unchanged';
+
+export interface MetricDelta {
+  metric: ComparisonMetric;
+  base: number; // mean over the base run's samples
+  head: number; // mean over the head run's samples
+  delta: number; // head - base
+  deltaPercent: number | null; // null when base is zero
+  interval?: { low: number; high: number }; // 95% CI of delta, when both runs have at least two samples
+  verdict: ChangeVerdict;
+}
+
+/**
+ * One engine and operation compared across two runs; metrics are empty when only one run has samples
+ */
+// A YCSB mix is compared as a whole (ycsb-A) and per operation it issued (ycsb-A/read)
+export type ComparedOperation = OperationType | `ycsb-${YcsbWorkload}` | `ycsb-${YcsbWorkload}/${MixOperation}`;
+
+export interface ComparisonRow {
+  database: string;
+  operation: ComparedOperation;
+  baseSamples: number;
+  headSamples: number;
+  metrics: MetricDelta[];
+}
+
+export interface ConfigChange {
+  field: string;
+  base: string; // JSON
+  head: string; // JSON
+}
+
+export interface RunComparison {
+  base: RunSummary;
+  head: RunSummary;
+  threshold: number; // percent change that is flagged without statistical evidence
+  configChanges: ConfigChange[];
+  rows: ComparisonRow[];
+  regressions: number;
+  improvements: number;
+}
+
+export type JobKind = 'all' | 'repeat' | 'scenario';
+export type JobState = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobSummary {
+  id: string;
+  kind: JobKind;
+  scenario: string;
+  state: JobState;
+  cancelRequested: boolean;
+  createdAt: string; // ISO 8601
+  finishedAt?: string;
+  lastEventId: number;
+  runId?: string; // ID in the run history once the job completed
+  error?: string;
+}
+
+export interface RowCount {
+  database: string;
+  count: number | null; // null when the engine could not be reached
+  error?: string;
+}
+
+export type AuditCategory = 'authentication' | 'default-credentials' | 'tls' | 'certificate-validation' | 'privileges' | 'network';
+export type AuditSeverity = 'critical' | 'high' | 'medium';
+export type AuditStatus = 'pass' | 'fail' | 'unknown'; // unknown: the check could not be carried out
+
+export interface AuditFinding {
+  database: string;
+  category: AuditCategory;
+  title: string;
+  severity: AuditSeverity;
+  status: AuditStatus;
+  detail: string; // what was measured
+  remediation: string;
+}
+
+export interface EngineAudit {
+  database: string;
+  reachable: boolean;
+  score: number | null; // 0-100, null when the engine could not be reached
+  findings: AuditFinding[];
+  error?: string;
+}
+
+export interface SecurityAudit {
+  auditedAt: string; // ISO 8601
+  score: number | null; // mean of the reachable engines' scores
+  engines: EngineAudit[];
 }
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { DatabaseAdapter, IntegrityReport, TestRecord } from './types';
+
+const VERIFY_PAGE_SIZE = 1000;
+// Largest LIMIT every engine accepts (Cassandra limits are 32-bit)
+const MAX_VERIFY_ROWS = 2_147_483_647;
+const DIGEST_BYTES = 32;
+
+/**
+ * What a verification pass expects to find in test_data
+ */
+export interface VerificationPlan {
+  fields: (keyof TestRecord)[]; // the columns each row hash covers
+  expected: Map<string, string>; // id -> row hash of rows that must exist with this content
+  forbidden?: Set<string>; // ids that must not exist (e.g. deleted rows)
+  known?: Set<string>; // ids allowed to exist without being checked; anything else counts as extra
+}
+
+function canonicalValue(value: unknown): string {
+  return value instanceof Date ? String(value.getTime()) : String(value);
+}
+
+/**
+ * SHA-256 over the given columns of a row, in a representation that survives every engine's round trip
+ */
+export function rowHash(record: Partial<TestRecord>, fields: (keyof TestRecord)[]): string {
+  const hash = createHash('sha256');
+  for (const field of fields) {
+    hash.update(canonicalValue(record[field]));
+    hash.update('\u0000');
+  }
+  return hash.digest('hex');
+}
+
+// XOR keeps the aggregate independent of the order rows are streamed in
+function xorInto(digest: Buffer, hexHash: string): void {
+  const bytes = Buffer.from(hexHash, 'hex');
+  for (let i = 0; i < DIGEST_BYTES; i++) {
+    digest[i] ^= bytes[i];
+  }
+}
+
+/**
+ * Total number of integrity violations in a report
+ */
+export function countViolations(report: IntegrityReport): number {
+  return report.missing + report.extra + report.mismatched;
+}
+
+/**
+ * Stream the whole table page by page and compare every row against the plan.
+ * Aborting `signal` stops the pass between pages and throws the abort reason.
+ */
+export async function verifyTable(adapter: DatabaseAdapter, plan: VerificationPlan, signal?: AbortSignal): Promise<IntegrityReport> {
+  const digest = Buffer.alloc(DIGEST_BYTES);
+  const expectedDigest = Buffer.alloc(DIGEST_BYTES);
+  plan.expected.forEach((hash) => xorInto(expectedDigest, hash));
+
+  const seen = new Set<string>();
+  let checked = 0;
+  let extra = 0;
+  let mismatched = 0;
+
+  for await (const page of adapter.scan(null, MAX_VERIFY_ROWS, VERIFY_PAGE_SIZE)) {
+    signal?.throwIfAborted();
+    for (const record of page) {
+      if (seen.has(record.id) || plan.forbidden?.has(record.id)) {
+        extra++;
+        continue;
+      }
+      seen.add(record.id);
+
+      const expectedHash = plan.expected.get(record.id);
+      if (expectedHash === undefined) {
+        if (plan.known && !plan.known.has(record.id)) {
+          extra++;
+        }
+        continue;
+      }
+
+      checked++;
+      const hash = rowHash(record, plan.fields);
+      xorInto(digest, hash);
+      if (hash !== expectedHash) {
+        mismatched++;
+      }
+    }
+  }
+
+  return {
+    checked,
+    missing: plan.expected.size - checked,
+    extra,
+    mismatched,
+    digest: digest.toString('hex'),
+    expectedDigest: expectedDigest.toString('hex'),
+  };
+}
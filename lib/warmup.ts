@@ -0,0 +1,53 @@
+import { runBounded } from './loadGenerator';
+import { WarmupStats } from './types';
+
+const WARMUP_WINDOWS = 10;
+const STEADY_STATE_WINDOWS = 3;
+
+/**
+ * Run discarded warm-up calls before measurement.
+ *
+ * Calls are issued in windows of warmupOperations / 10. With a steady-state
+ * threshold set, warm-up stops early once the throughput of the last three
+ * windows differs by less than that percentage of their mean.
+ */
+export async function runWarmup(
+  execute: () => Promise<void>,
+  warmupOperations: number,
+  concurrency: number,
+  steadyStateThreshold: number,
+  signal?: AbortSignal
+): Promise<WarmupStats> {
+  const startTime = Date.now();
+  const windowSize = Math.max(1, Math.ceil(warmupOperations / WARMUP_WINDOWS));
+  const throughputs: number[] = [];
+  let operations = 0;
+
+  while (operations < warmupOperations) {
+    const size = Math.min(windowSize, warmupOperations - operations);
+    const windowStart = process.hrtime.bigint();
+
+    await runBounded(size, concurrency, async () => {
+      try {
+        await execute();
+      } catch (error) {
+        // Warm-up results are discarded, failures included
+      }
+    }, signal);
+
+    const elapsedMs = Number(process.hrtime.bigint() - windowStart) / 1e6;
+    operations += size;
+    throughputs.push(size / Math.max(elapsedMs, 0.001));
+
+    if (steadyStateThreshold > 0 && throughputs.length >= STEADY_STATE_WINDOWS) {
+      const recent = throughputs.slice(-STEADY_STATE_WINDOWS);
+      const mean = recent.reduce((sum, t) => sum + t, 0) / recent.length;
+      const spread = ((Math.max(...recent) - Math.min(...recent)) / mean) * 100;
+      if (spread < steadyStateThreshold) {
+        return { operations, timeTaken: Date.now() - startTime, steadyState: true };
+      }
+    }
+  }
+
+  return { operations, timeTaken: Date.now() - startTime, steadyState: false };
+}
@@ -0,0 +1,201 @@
+import {
+  ConsistencyProfile,
+  DatabaseType,
+  IncrementStrategy,
+  KeyDistribution,
+  LoadMode,
+  RunIsolation,
+  OperationType,
+  WorkloadConfig,
+  WriteStrategy,
+} from './types';
+
+/**
+ * Operations of the standard test matrix, in the order they run
+ */
+export const OPERATION_TYPES: OperationType[] = ['write', 'read', 'update', 'scan', 'delete'];
+
+/**
+ * Write strategies per engine; the first entry is the engine's default
+ */
+export const WRITE_STRATEGIES: Record<DatabaseType, WriteStrategy[]> = {
+  cassandra: ['concurrent', 'unlogged-batch', 'logged-batch', 'execute-concurrent'],
+  mongo: ['insert-many', 'bulk-write'],
+  cockroach: ['single-row', 'multi-row', 'copy'],
+};
+
+/**
+ * Hot-key increment strategies per engine; the first entry is the engine's default
+ */
+export const INCREMENT_STRATEGIES: Record<DatabaseType, IncrementStrategy[]> = {
+  cassandra: ['counter', 'lwt'],
+  mongo: ['inc', 'read-modify-write'],
+  cockroach: ['increment', 'read-modify-write'],
+};
+
+/**
+ * Consistency profiles per engine; the first entry is the engine's default
+ */
+export const CONSISTENCY_PROFILES: Record<DatabaseType, ConsistencyProfile[]> = {
+  cassandra: ['one', 'quorum', 'all'],
+  mongo: ['w1', 'majority', 'secondary-read'],
+  cockroach: ['serializable', 'read-committed', 'follower-read'],
+};
+
+export const DEFAULT_WORKLOAD_CONFIG: WorkloadConfig = {
+  recordCount: 10000,
+  operationCount: 1000,
+  batchSize: 100,
+  concurrency: 64,
+  payloadSize: 64,
+  keyDistribution: 'uniform', // sequential walks the oldest, cache-hot keys first; opt in explicitly
+  seed: 1,
+  mode: 'closed',
+  targetOpsPerSec: 1000,
+  durationSec: 10,
+  warmupOperations: 0,
+  steadyStateThreshold: 0,
+  accountCount: 1000,
+  hotKeyCount: 10,
+  incrementStrategies: {
+    cassandra: INCREMENT_STRATEGIES.cassandra[0],
+    mongo: INCREMENT_STRATEGIES.mongo[0],
+    cockroach: INCREMENT_STRATEGIES.cockroach[0],
+  },
+  isolation: 'truncate',
+  writeStrategies: {
+    cassandra: WRITE_STRATEGIES.cassandra[0],
+    mongo: WRITE_STRATEGIES.mongo[0],
+    cockroach: WRITE_STRATEGIES.cockroach[0],
+  },
+  consistencyProfiles: {
+    cassandra: CONSISTENCY_PROFILES.cassandra[0],
+    mongo: CONSISTENCY_PROFILES.mongo[0],
+    cockroach: CONSISTENCY_PROFILES.cockroach[0],
+  },
+  cassandraCoreConnectionsPerHost: 1,
+  mongoMinPoolSize: 0,
+  mongoMaxPoolSize: 100,
+  cockroachPoolSize: 10,
+};
+
+export const LOAD_MODES: LoadMode[] = ['closed', 'open'];
+
+export const RUN_ISOLATIONS: RunIsolation[] = ['shared', 'truncate'];
+
+export const KEY_DISTRIBUTIONS: KeyDistribution[] = ['uniform', 'zipfian', 'hotspot', 'latest', 'sequential'];
+
+// WorkloadConfig fields that hold a plain number
+type NumericField = { [K in keyof WorkloadConfig]: WorkloadConfig[K] extends number ? K : never }[keyof WorkloadConfig];
+
+const numericLimits: { [K in NumericField]?: { min: number; max: number } } = {
+  recordCount: { min: 1, max: 1_000_000 },
+  operationCount: { min: 1, max: 1_000_000 },
+  batchSize: { min: 1, max: 10_000 },
+  concurrency: { min: 1, max: 10_000 },
+  payloadSize: { min: 0, max: 1_048_576 },
+  seed: { min: 0, max: 4_294_967_295 },
+  targetOpsPerSec: { min: 1, max: 100_000 },
+  durationSec: { min: 1, max: 3600 },
+  warmupOperations: { min: 0, max: 1_000_000 },
+  steadyStateThreshold: { min: 0, max: 100 },
+  accountCount: { min: 2, max: 1_000_000 },
+  hotKeyCount: { min: 1, max: 100 },
+  cassandraCoreConnectionsPerHost: { min: 1, max: 64 },
+  mongoMinPoolSize: { min: 0, max: 1000 },
+  mongoMaxPoolSize: { min: 1, max: 1000 },
+  cockroachPoolSize: { min: 1, max: 1000 },
+};
+
+/**
+ * Merge a per-engine choice map (e.g. { cockroach: 'copy' }) over the defaults, checking each engine's allowed values
+ */
+function parseEngineChoices<T extends string>(
+  name: string,
+  value: unknown,
+  allowed: Record<DatabaseType, T[]>,
+  defaults: Record<DatabaseType, T>,
+  errors: string[]
+): Record<DatabaseType, T> {
+  if (value === undefined) {
+    return defaults;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${name} must be an object`);
+    return defaults;
+  }
+
+  const choices = { ...defaults };
+  for (const [dbType, choice] of Object.entries(value)) {
+    if (!Object.keys(allowed).includes(dbType)) {
+      errors.push(`${name} has unknown database: ${dbType}`);
+    } else if (!allowed[dbType as DatabaseType].includes(choice as T)) {
+      errors.push(`${name}.${dbType} must be one of: ${allowed[dbType as DatabaseType].join(', ')}`);
+    } else {
+      choices[dbType as DatabaseType] = choice as T;
+    }
+  }
+  return choices;
+}
+
+/**
+ * Merge a (partial) workload config from a request with the defaults and validate it
+ */
+export function parseWorkloadConfig(input: unknown): { config: WorkloadConfig; errors: string[] } {
+  const errors: string[] = [];
+  const config: WorkloadConfig = { ...DEFAULT_WORKLOAD_CONFIG };
+
+  if (input === undefined || input === null) {
+    return { config, errors };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { config, errors: ['workload must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  for (const key of Object.keys(numericLimits) as NumericField[]) {
+    const limits = numericLimits[key]!;
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < limits.min || value > limits.max) {
+      errors.push(`${key} must be an integer between ${limits.min} and ${limits.max}`);
+      continue;
+    }
+    config[key] = value;
+  }
+
+  if (config.mongoMinPoolSize > config.mongoMaxPoolSize) {
+    errors.push('mongoMinPoolSize must not exceed mongoMaxPoolSize');
+  }
+
+  if (raw.keyDistribution !== undefined) {
+    if (!KEY_DISTRIBUTIONS.includes(raw.keyDistribution as KeyDistribution)) {
+      errors.push(`keyDistribution must be one of: ${KEY_DISTRIBUTIONS.join(', ')}`);
+    } else {
+      config.keyDistribution = raw.keyDistribution as KeyDistribution;
+    }
+  }
+
+  if (raw.mode !== undefined) {
+    if (!LOAD_MODES.includes(raw.mode as LoadMode)) {
+      errors.push(`mode must be one of: ${LOAD_MODES.join(', ')}`);
+    } else {
+      config.mode = raw.mode as LoadMode;
+    }
+  }
+
+  if (raw.isolation !== undefined) {
+    if (!RUN_ISOLATIONS.includes(raw.isolation as RunIsolation)) {
+      errors.push(`isolation must be one of: ${RUN_ISOLATIONS.join(', ')}`);
+    } else {
+      config.isolation = raw.isolation as RunIsolation;
+    }
+  }
+
+  config.writeStrategies = parseEngineChoices('writeStrategies', raw.writeStrategies, WRITE_STRATEGIES, config.writeStrategies, errors);
+  config.incrementStrategies = parseEngineChoices('incrementStrategies', raw.incrementStrategies, INCREMENT_STRATEGIES, config.incrementStrategies, errors);
+  config.consistencyProfiles = parseEngineChoices('consistencyProfiles', raw.consistencyProfiles, CONSISTENCY_PROFILES, config.consistencyProfiles, errors);
+
+  return { config, errors };
+}
@@ -0,0 +1,167 @@
+import { connectAdapter, createAdapter } from './adapters';
+import { createHistogram, Histogram, measure, mergeHistogram, summarizeHistogram } from './histogram';
+import { createKeyChooser, createRandom, Random } from './keyChooser';
+import { appendKeys, loadKeySpace } from './keySpace';
+import { runConcurrently } from './loadGenerator';
+import { generateTestData } from './testData';
+import { DEFAULT_WORKLOAD_CONFIG } from './workloadConfig';
+import {
+  DatabaseAdapter,
+  DatabaseType,
+  KeyDistribution,
+  MixOperation,
+  RecordKey,
+  WorkloadConfig,
+  WorkloadMixResult,
+  YcsbWorkload,
+} from './types';
+
+const MAX_SCAN_LENGTH = 100;
+
+interface WorkloadMix {
+  description: string;
+  proportions: Partial<Record<MixOperation, number>>;
+  requestDistribution: KeyDistribution;
+}
+
+/**
+ * Core YCSB workloads, expressed over the existing test_data schema with YCSB's default request distributions
+ */
+export const YCSB_WORKLOADS: Record<YcsbWorkload, WorkloadMix> = {
+  A: { description: 'Update heavy (50% read, 50% update)', proportions: { read: 0.5, update: 0.5 }, requestDistribution: 'zipfian' },
+  B: { description: 'Read mostly (95% read, 5% update)', proportions: { read: 0.95, update: 0.05 }, requestDistribution: 'zipfian' },
+  C: { description: 'Read only (100% read)', proportions: { read: 1 }, requestDistribution: 'zipfian' },
+  D: { description: 'Read latest (95% read, 5% insert)', proportions: { read: 0.95, insert: 0.05 }, requestDistribution: 'latest' },
+  E: { description: 'Short ranges (95% scan, 5% insert)', proportions: { scan: 0.95, insert: 0.05 }, requestDistribution: 'zipfian' },
+  F: { description: 'Read-modify-write (50% read, 50% read-modify-write)', proportions: { read: 0.5, readModifyWrite: 0.5 }, requestDistribution: 'zipfian' },
+};
+
+/**
+ * Draw `count` operations according to the mix proportions
+ */
+function buildOperationSequence(mix: WorkloadMix, count: number, random: Random): MixOperation[] {
+  const entries = Object.entries(mix.proportions) as [MixOperation, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  return Array.from({ length: count }, () => {
+    let pick = random() * total;
+    for (const [operation, weight] of entries) {
+      pick -= weight;
+      if (pick < 0) return operation;
+    }
+    return entries[entries.length - 1][0];
+  });
+}
+
+/**
+ * Run a YCSB-style weighted operation mix against one database
+ */
+export async function runWorkloadMix(
+  dbType: DatabaseType,
+  workload: YcsbWorkload,
+  config: WorkloadConfig = DEFAULT_WORKLOAD_CONFIG,
+  signal?: AbortSignal
+): Promise<WorkloadMixResult> {
+  const mix = YCSB_WORKLOADS[workload];
+  const histograms: Partial<Record<MixOperation, Histogram>> = {};
+  const errors: Partial<Record<MixOperation, number>> = {};
+  let missingReads = 0;
+  let adapter: DatabaseAdapter | undefined;
+  const startTime = Date.now();
+
+  try {
+    adapter = await connectAdapter(dbType, config);
+    const db = adapter;
+
+    const keySpace = await loadKeySpace(db);
+    if (keySpace.keys.length === 0) {
+      throw new Error('No records found in database. Please run Write test first.');
+    }
+
+    const random = createRandom(config.seed);
+    const chooser = createKeyChooser(mix.requestDistribution, random);
+    const chooseKey = () => keySpace.keys[chooser.nextIndex(keySpace.keys.length)];
+
+    const payload = () => `Updated at ${Date.now()}`.padEnd(config.payloadSize, '.').slice(0, config.payloadSize);
+
+    const read = async (key: RecordKey) => {
+      const record = await db.readById(key.id);
+      if (!record) missingReads++;
+      return record;
+    };
+
+    const executors: Record<MixOperation, () => Promise<unknown>> = {
+      read: () => read(chooseKey()),
+      update: () => db.updateById(chooseKey().id, { data: payload() }),
+      insert: async () => {
+        // Claim the user_id before the insert so concurrent inserts never collide
+        const [record] = generateTestData(keySpace.nextUserId++ - 1, 1, config.payloadSize);
+        await db.insertBatch([record]);
+        appendKeys(keySpace, [{ id: record.id, user_id: record.user_id }]);
+      },
+      scan: async () => {
+        const length = 1 + Math.floor(random() * MAX_SCAN_LENGTH);
+        let scanned = 0;
+        for await (const page of db.scan(chooseKey(), length, length)) {
+          scanned += page.length;
+        }
+        return scanned;
+      },
+      readModifyWrite: async () => {
+        const key = chooseKey();
+        const record = await read(key);
+        if (record) {
+          await db.updateById(key.id, { age: record.age + 1, data: payload() });
+        }
+      },
+    };
+
+    const sequence = buildOperationSequence(mix, config.operationCount, random);
+    const phaseStart = Date.now();
+
+    await runConcurrently(sequence, config.concurrency, async (operation) => {
+      const histogram = (histograms[operation] ??= createHistogram());
+      try {
+        await measure(histogram, executors[operation]);
+      } catch (error) {
+        errors[operation] = (errors[operation] || 0) + 1;
+      }
+    }, signal);
+
+    const timeTaken = Date.now() - phaseStart;
+    const aggregate = createHistogram();
+    Object.values(histograms).forEach((histogram) => mergeHistogram(aggregate, histogram!));
+    const errorCount = Object.values(errors).reduce((sum, n) => sum + (n || 0), 0);
+
+    return {
+      database: db.displayName,
+      workload,
+      timeTaken,
+      operationCount: sequence.length,
+      opsPerSec: timeTaken > 0 ? Math.round((sequence.length / timeTaken) * 1000) : 0,
+      dataIntegrity: errorCount === 0 && missingReads === 0,
+      latency: summarizeHistogram(aggregate),
+      pool: db.poolSettings(),
+      consistency: db.consistencyProfile(),
+      operations: (Object.keys(histograms) as MixOperation[]).map((operation) => ({
+        operation,
+        count: histograms[operation]!.totalCount,
+        errors: errors[operation] || 0,
+        latency: summarizeHistogram(histograms[operation]!),
+      })),
+      ...(errorCount > 0 ? { error: `${errorCount} operations failed` } : {}),
+    };
+  } catch (error: any) {
+    return {
+      database: adapter?.displayName ?? createAdapter(dbType).displayName,
+      workload,
+      timeTaken: Date.now() - startTime,
+      operationCount: 0,
+      opsPerSec: 0,
+      dataIntegrity: false,
+      latency: summarizeHistogram(createHistogram()),
+      operations: [],
+      error: error.message,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRowCounts, resetAllData } from '@/lib/admin';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+
+/**
+ * GET reports test_data row counts per engine, POST empties test_data on every engine first
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const release = acquireRunLock('/api/admin/reset');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
+  try {
+    const counts = req.method === 'POST' ? await resetAllData() : await getRowCounts();
+    return res.status(200).json({ counts });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  } finally {
+    release();
+  }
+}
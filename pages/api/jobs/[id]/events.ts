@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJob, JobEvent, subscribe } from '@/lib/jobs';
+
+/**
+ * Stream a job's TestStatus updates and its final event. Reconnecting clients resume after the
+ * Last-Event-ID header (or ?lastEventId) instead of receiving the whole stream again.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const lastEventId = Number(req.headers['last-event-id'] ?? req.query.lastEventId ?? 0);
+  if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+    return res.status(400).json({ error: 'Last event ID must be a non-negative integer' });
+  }
+
+  const id = String(req.query.id);
+  if (!getJob(id)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  // Missed events are replayed synchronously; the stream ends after the job's final event
+  const unsubscribe = subscribe(id, lastEventId, (event: JobEvent) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    // Final events (complete, error, cancelled) carry a type; status updates do not
+    if (event.data.type && getJob(id)?.state !== 'running') {
+      res.end();
+    }
+  });
+  if (getJob(id)?.state !== 'running') {
+    unsubscribe?.();
+    if (!res.writableEnded) {
+      res.end();
+    }
+    return;
+  }
+  req.on('close', () => unsubscribe?.());
+}
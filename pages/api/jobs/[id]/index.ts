@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { cancelJob, getJob } from '@/lib/jobs';
+
+/**
+ * GET returns the job's state; DELETE cancels it between operations and aborts the batch in flight
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = String(req.query.id);
+  const job = req.method === 'DELETE' ? cancelJob(id) : getJob(id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  return res.status(req.method === 'DELETE' ? 202 : 200).json(job);
+}
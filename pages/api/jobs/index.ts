@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getActiveRun, listJobs, startJob } from '@/lib/jobs';
+import { createMatrixScenario, DEFAULT_REPEAT_COUNT, loadScenarioFile, parseScenario, resolveScenarioFile } from '@/lib/scenario';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { JobKind, Scenario } from '@/lib/types';
+
+const JOB_KINDS: JobKind[] = ['all', 'repeat', 'scenario'];
+
+/**
+ * GET lists the jobs held in memory. POST starts a background job and returns its ID:
+ * { type: 'all' | 'repeat', workload? } for the standard matrix, or { type: 'scenario', scenario | file }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    return res.status(200).json(listJobs());
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { type, workload, scenario: inline, file } = req.body ?? {};
+  if (!JOB_KINDS.includes(type)) {
+    return res.status(400).json({ error: `type must be one of: ${JOB_KINDS.join(', ')}` });
+  }
+
+  let scenario: Scenario;
+  if (type === 'scenario') {
+    if ((inline === undefined) === (file === undefined)) {
+      return res.status(400).json({ error: 'Provide either scenario or file' });
+    }
+    if (inline !== undefined) {
+      const parsed = parseScenario(inline);
+      if (!parsed.scenario) {
+        return res.status(400).json({ error: `Invalid scenario: ${parsed.errors.join('; ')}` });
+      }
+      scenario = parsed.scenario;
+    } else {
+      try {
+        scenario = await loadScenarioFile(resolveScenarioFile(String(file)));
+      } catch (error: any) {
+        return res.status(error.code === 'ENOENT' ? 404 : 400).json({ error: error.message });
+      }
+    }
+  } else {
+    const { config, errors } = parseWorkloadConfig(workload);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+    }
+    scenario = type === 'repeat'
+      ? createMatrixScenario('Tekrarlı test', config, DEFAULT_REPEAT_COUNT)
+      : createMatrixScenario('Tüm testler', config);
+  }
+
+  const activeRun = getActiveRun();
+  if (activeRun) {
+    return res.status(409).json({ error: `${activeRun} is already running` });
+  }
+
+  try {
+    return res.status(202).json(startJob(type, scenario));
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
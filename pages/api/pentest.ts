@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { demonstrateInjectionProtection } from '@/lib/pentest';
+import { runInjectionLab } from '@/lib/pentest';
 
+/**
+ * Run every payload in the corpus against every engine's sandbox and return the payload x engine matrix
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -10,10 +13,9 @@ export default async function handler(
   }
 
   try {
-    const result = await demonstrateInjectionProtection();
-    return res.status(200).json(result);
+    const matrix = await runInjectionLab();
+    return res.status(200).json(matrix);
   } catch (error: any) {
     return res.status(500).json({ error: error.message });
   }
 }
-
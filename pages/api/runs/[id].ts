@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRun } from '@/lib/history';
+
+/**
+ * Fetch one stored run with its metadata and all result rows
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const run = await getRun(String(req.query.id));
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+    return res.status(200).json(run);
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
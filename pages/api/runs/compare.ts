@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRun } from '@/lib/history';
+import { compareRuns, DEFAULT_REGRESSION_THRESHOLD } from '@/lib/compare';
+
+/**
+ * Compare two stored runs: ?base=<run id>&head=<run id>[&threshold=<percent>]
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { base, head } = req.query;
+  if (typeof base !== 'string' || typeof head !== 'string' || !base || !head) {
+    return res.status(400).json({ error: 'base and head run IDs are required' });
+  }
+
+  const threshold = req.query.threshold === undefined ? DEFAULT_REGRESSION_THRESHOLD : Number(req.query.threshold);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1000) {
+    return res.status(400).json({ error: 'threshold must be a number between 0 and 1000' });
+  }
+
+  try {
+    const [baseRun, headRun] = await Promise.all([getRun(base), getRun(head)]);
+    if (!baseRun || !headRun) {
+      return res.status(404).json({ error: `Run not found: ${!baseRun ? base : head}` });
+    }
+    return res.status(200).json(compareRuns(baseRun, headRun, threshold));
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listRuns } from '@/lib/history';
+
+/**
+ * List stored runs, newest first; ?limit=N returns only the latest N
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let limit: number | undefined;
+  if (req.query.limit !== undefined) {
+    limit = Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+  }
+
+  try {
+    const runs = await listRuns(limit);
+    return res.status(200).json({ runs });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
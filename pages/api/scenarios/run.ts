@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { loadScenarioFile, parseScenario, resolveScenarioFile } from '@/lib/scenario';
+import { getActiveRun, startJob } from '@/lib/jobs';
+import { Scenario } from '@/lib/types';
+
+/**
+ * Submit a scenario given inline ({ scenario }) or by file name in scenarios/ ({ file }) as a background job and
+ * return the job; progress is followed, resumed and cancelled through /api/jobs/[id]
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { scenario: inline, file } = req.body ?? {};
+  if ((inline === undefined) === (file === undefined)) {
+    return res.status(400).json({ error: 'Provide either scenario or file' });
+  }
+
+  let scenario: Scenario;
+  if (inline !== undefined) {
+    const parsed = parseScenario(inline);
+    if (!parsed.scenario) {
+      return res.status(400).json({ error: `Invalid scenario: ${parsed.errors.join('; ')}` });
+    }
+    scenario = parsed.scenario;
+  } else {
+    try {
+      scenario = await loadScenarioFile(resolveScenarioFile(String(file)));
+    } catch (error: any) {
+      return res.status(error.code === 'ENOENT' ? 404 : 400).json({ error: error.message });
+    }
+  }
+
+  const activeRun = getActiveRun();
+  if (activeRun) {
+    return res.status(409).json({ error: `${activeRun} is already running` });
+  }
+
+  try {
+    return res.status(202).json(startJob('scenario', scenario));
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runSecurityAudit } from '@/lib/securityAudit';
+
+/**
+ * Audit the security posture of every engine's deployment and return the scored findings
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const audit = await runSecurityAudit();
+    return res.status(200).json(audit);
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+}
@@ -1,7 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { runTest } from '@/lib/runTest';
-import { DatabaseType, OperationType, TestResult, TestStatus } from '@/lib/types';
-
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { createMatrixScenario } from '@/lib/scenario';
+import { runScenario } from '@/lib/scenarioRunner';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { TestStatus } from '@/lib/types';
+
+/**
+ * Run every engine through every operation once, streaming TestStatus updates.
+ * Kept for existing clients; the UI submits the same matrix as an 'all' job to /api/jobs.
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -10,117 +17,34 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/all-stream');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
   // Set headers for streaming response
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache, no-transform');
   res.setHeader('Connection', 'keep-alive');
   res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
 
-  try {
-    const databases: DatabaseType[] = ['cassandra', 'mongo', 'cockroach'];
-    const operations: OperationType[] = ['write', 'read', 'update'];
-    const allResults: TestResult[] = [];
-    const totalTests = databases.length * operations.length;
-    let currentTest = 0;
-
-    const sendStatus = (status: TestStatus) => {
-      res.write(`data: ${JSON.stringify(status)}\n\n`);
-    };
-
-    // Run tests sequentially - one database at a time, one operation at a time
-    for (const db of databases) {
-      for (const operation of operations) {
-        currentTest++;
-        const progress = Math.round((currentTest / totalTests) * 100);
-
-        const dbLabels: { [key: string]: string } = {
-          cassandra: 'Cassandra',
-          mongo: 'MongoDB',
-          cockroach: 'CockroachDB',
-        };
-
-        const operationLabels: { [key: string]: string } = {
-          write: 'yazma',
-          read: 'okuma',
-          update: 'güncelleme',
-        };
-
-        const dbDisplayName = dbLabels[db] || db;
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
 
-        // Send starting status
-        sendStatus({
-          currentDatabase: dbDisplayName,
-          currentOperation: operation,
-          status: 'starting',
-          progress,
-          message: `${dbDisplayName} için ${operationLabels[operation]} işlemi başlatılıyor...`,
-        });
-
-        try {
-          const recordCount = operation === 'write' ? 10000 : 1000;
-          
-          // Send running status
-          sendStatus({
-            currentDatabase: dbDisplayName,
-            currentOperation: operation,
-            status: 'running',
-            progress,
-            message: `${dbDisplayName} için ${recordCount.toLocaleString()} kayıt ${operationLabels[operation]} işlemi yapılıyor...`,
-            recordCount,
-          });
-
-          const result = await runTest(db, operation);
-
-          // Send verifying status
-          sendStatus({
-            currentDatabase: dbDisplayName,
-            currentOperation: operation,
-            status: 'verifying',
-            progress,
-            message: `${dbDisplayName} için ${operationLabels[operation]} işlemi sonuçları doğrulanıyor...`,
-          });
-
-          allResults.push(result);
-
-          // Send completed status
-          sendStatus({
-            currentDatabase: dbDisplayName,
-            currentOperation: operation,
-            status: 'completed',
-            progress,
-            message: `${dbDisplayName} için ${operationLabels[operation]} işlemi tamamlandı. Süre: ${result.timeTaken.toLocaleString()}ms`,
-          });
-
-          // Small delay between operations
-          await new Promise(resolve => setTimeout(resolve, 300));
-        } catch (error: any) {
-          const errorResult: TestResult = {
-            database: db,
-            operation,
-            timeTaken: 0,
-            recordCount: 0,
-            dataIntegrity: false,
-            error: error.message,
-          };
-          allResults.push(errorResult);
-
-          sendStatus({
-            currentDatabase: dbDisplayName,
-            currentOperation: operation,
-            status: 'error',
-            progress,
-            message: `${dbDisplayName} için ${operationLabels[operation]} işlemi başarısız: ${error.message}`,
-          });
-        }
-      }
-    }
-
-    // Send final results
-    res.write(`data: ${JSON.stringify({ type: 'complete', results: allResults })}\n\n`);
+  try {
+    const { runId, results } = await runScenario(createMatrixScenario('Tüm testler', config), { onStatus: sendStatus, kind: 'all' });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results })}\n\n`);
     res.end();
   } catch (error: any) {
     res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
     res.end();
+  } finally {
+    release();
   }
 }
-
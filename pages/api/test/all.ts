@@ -1,8 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { runTest } from '@/lib/runTest';
+import { recordRun } from '@/lib/history';
+import { createAdapter, databaseTypes } from '@/lib/adapters';
+import { OPERATION_TYPES, parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
 import { DatabaseType, OperationType, TestResult } from '@/lib/types';
 
 interface AllTestsResult {
+  runId?: string; // ID in the run history, when it could be stored
   results: TestResult[];
   summary: {
     totalTests: number;
@@ -20,23 +25,33 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/all');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
   try {
-    const databases: DatabaseType[] = ['cassandra', 'mongo', 'cockroach'];
-    const operations: OperationType[] = ['write', 'read', 'update'];
+    const databases: DatabaseType[] = databaseTypes;
+    const operations: OperationType[] = OPERATION_TYPES;
     const allResults: TestResult[] = [];
 
     // Run tests sequentially - one database at a time, one operation at a time
     for (const db of databases) {
       for (const operation of operations) {
         try {
-          const result = await runTest(db, operation);
+          const result = await runTest(db, operation, config);
           allResults.push(result);
           
           // Small delay between operations to ensure clean state
           await new Promise(resolve => setTimeout(resolve, 500));
         } catch (error: any) {
           allResults.push({
-            database: db,
+            database: createAdapter(db).displayName,
             operation,
             timeTaken: 0,
             recordCount: 0,
@@ -55,7 +70,10 @@ export default async function handler(
       totalTime: allResults.reduce((sum, r) => sum + r.timeTaken, 0),
     };
 
+    const runId = await recordRun('all', config, databases, { results: allResults });
+
     const response: AllTestsResult = {
+      runId,
       results: allResults,
       summary,
     };
@@ -63,5 +81,7 @@ export default async function handler(
     return res.status(200).json(response);
   } catch (error: any) {
     return res.status(500).json({ error: error.message });
+  } finally {
+    release();
   }
 }
@@ -1,5 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { runTest } from '@/lib/runTest';
+import { recordRun } from '@/lib/history';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { OperationType } from '@/lib/types';
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,18 +13,34 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { operation } = req.body;
-  const validOperations = ['read', 'write', 'update'];
+  const { operation, workload } = req.body;
+  const validOperations = ['read', 'write', 'update', 'scan', 'delete'];
 
   if (!operation || !validOperations.includes(operation)) {
-    return res.status(400).json({ error: 'Invalid operation. Must be: read, write, or update' });
+    return res.status(400).json({ error: 'Invalid operation. Must be: read, write, update, scan, or delete' });
+  }
+
+  const { config, errors } = parseWorkloadConfig(workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/cockroach');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
   }
 
   try {
-    const result = await runTest('cockroach', operation as 'read' | 'write' | 'update');
+    const result = await runTest('cockroach', operation as OperationType, config);
+    const runId = await recordRun('single', config, ['cockroach'], { results: [result] });
+    if (runId) {
+      res.setHeader('X-Run-Id', runId);
+    }
     return res.status(200).json(result);
   } catch (error: any) {
     return res.status(500).json({ error: error.message });
+  } finally {
+    release();
   }
 }
 
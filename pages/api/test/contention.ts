@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runContentionWorkload } from '@/lib/contention';
+import { createAdapter, databaseTypes } from '@/lib/adapters';
+import { recordRun } from '@/lib/history';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { TestStatus, ContentionResult } from '@/lib/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/contention');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
+  // Set headers for streaming response
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
+
+  try {
+    const allResults: ContentionResult[] = [];
+
+    for (let i = 0; i < databaseTypes.length; i++) {
+      const dbDisplayName = createAdapter(databaseTypes[i]).displayName;
+      const progress = Math.round(((i + 1) / databaseTypes.length) * 100);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: 'contention',
+        status: 'running',
+        progress,
+        message: `${dbDisplayName} için ${config.hotKeyCount} sıcak anahtar üzerinde ${config.operationCount.toLocaleString()} artırma (${config.incrementStrategies[databaseTypes[i]]}) çalıştırılıyor...`,
+        recordCount: config.operationCount,
+      });
+
+      const result = await runContentionWorkload(databaseTypes[i], config);
+      allResults.push(result);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: 'contention',
+        status: result.error || result.lostUpdates !== 0 ? 'error' : 'completed',
+        progress,
+        message: result.error
+          ? `${dbDisplayName} için çekişme testi başarısız: ${result.error}`
+          : `${dbDisplayName} için çekişme testi tamamlandı. ${result.opsPerSec.toLocaleString()} işlem/sn, `
+            + `${result.retries} yeniden deneme, ${result.lostUpdates} kayıp güncelleme`,
+      });
+    }
+
+    const runId = await recordRun('contention', config, databaseTypes, { contentionResults: allResults });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results: allResults })}\n\n`);
+    res.end();
+  } catch (error: any) {
+    res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
+    res.end();
+  } finally {
+    release();
+  }
+}
@@ -1,16 +1,16 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { runTest } from '@/lib/runTest';
-import { DatabaseType, OperationType, TestResult } from '@/lib/types';
-
-interface RepeatTestResult {
-  database: string;
-  operation: OperationType;
-  times: number[]; // Array of time taken for each run
-  average: number;
-  min: number;
-  max: number;
-}
-
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { createMatrixScenario, DEFAULT_REPEAT_COUNT } from '@/lib/scenario';
+import { runScenario } from '@/lib/scenarioRunner';
+import { compareRepeatResults } from '@/lib/stats';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { TestStatus } from '@/lib/types';
+
+/**
+ * Run every engine through every operation DEFAULT_REPEAT_COUNT times, streaming TestStatus updates and finishing
+ * with per-operation statistics and pairwise comparisons.
+ * Kept for existing clients; the UI submits the same matrix as a 'repeat' job to /api/jobs.
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -19,114 +19,35 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  try {
-    const databases: DatabaseType[] = ['cassandra', 'mongo', 'cockroach'];
-    const operations: OperationType[] = ['write', 'read', 'update'];
-    const repeatCount = 10;
-    const allResults: RepeatTestResult[] = [];
-
-    // Set headers for streaming response
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache, no-transform');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
-
-    const sendStatus = (status: any) => {
-      res.write(`data: ${JSON.stringify(status)}\n\n`);
-    };
-
-    const dbLabels: { [key: string]: string } = {
-      cassandra: 'Cassandra',
-      mongo: 'MongoDB',
-      cockroach: 'CockroachDB',
-    };
-
-    const operationLabels: { [key: string]: string } = {
-      write: 'yazma',
-      read: 'okuma',
-      update: 'güncelleme',
-    };
-
-    let totalTests = 0;
-    const totalOperations = databases.length * operations.length * repeatCount;
-
-    // Run tests: for each database, for each operation, repeat 10 times
-    for (const db of databases) {
-      for (const operation of operations) {
-        const dbDisplayName = dbLabels[db];
-        const times: number[] = [];
-
-        sendStatus({
-          type: 'start',
-          database: dbDisplayName,
-          operation,
-          message: `${dbDisplayName} için ${operationLabels[operation]} işlemi 10 kez çalıştırılıyor...`,
-        });
-
-        for (let i = 0; i < repeatCount; i++) {
-          totalTests++;
-          const progress = Math.round((totalTests / totalOperations) * 100);
-
-          try {
-            sendStatus({
-              type: 'running',
-              database: dbDisplayName,
-              operation,
-              iteration: i + 1,
-              total: repeatCount,
-              progress,
-              message: `${dbDisplayName} - ${operationLabels[operation]} (${i + 1}/${repeatCount}) çalıştırılıyor...`,
-            });
-
-            const result = await runTest(db, operation);
-            times.push(result.timeTaken);
-
-            // Small delay between iterations
-            await new Promise(resolve => setTimeout(resolve, 200));
-          } catch (error: any) {
-            console.error(`Error in iteration ${i + 1}:`, error);
-            times.push(0); // Failed test
-          }
-        }
-
-        // Calculate statistics
-        const validTimes = times.filter(t => t > 0);
-        const average = validTimes.length > 0 
-          ? validTimes.reduce((sum, t) => sum + t, 0) / validTimes.length 
-          : 0;
-        const min = validTimes.length > 0 ? Math.min(...validTimes) : 0;
-        const max = validTimes.length > 0 ? Math.max(...validTimes) : 0;
-
-        const repeatResult: RepeatTestResult = {
-          database: dbDisplayName,
-          operation,
-          times,
-          average,
-          min,
-          max,
-        };
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
 
-        allResults.push(repeatResult);
+  const release = acquireRunLock('/api/test/repeat');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
 
-        sendStatus({
-          type: 'completed',
-          database: dbDisplayName,
-          operation,
-          result: repeatResult,
-          message: `${dbDisplayName} - ${operationLabels[operation]} tamamlandı. Ortalama: ${Math.round(average)}ms`,
-        });
+  // Set headers for streaming response
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
 
-        // Delay between operations
-        await new Promise(resolve => setTimeout(resolve, 300));
-      }
-    }
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
 
-    // Send final results
-    res.write(`data: ${JSON.stringify({ type: 'complete', results: allResults })}\n\n`);
+  try {
+    const scenario = createMatrixScenario('Tekrarlı test', config, DEFAULT_REPEAT_COUNT);
+    const { runId, repeatResults } = await runScenario(scenario, { onStatus: sendStatus, kind: 'repeat' });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results: repeatResults, comparisons: compareRepeatResults(repeatResults) })}\n\n`);
     res.end();
   } catch (error: any) {
     res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
     res.end();
+  } finally {
+    release();
   }
 }
-
@@ -0,0 +1,90 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runSweep, DEFAULT_SWEEP_LEVELS } from '@/lib/sweep';
+import { createAdapter, databaseTypes } from '@/lib/adapters';
+import { recordRun } from '@/lib/history';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { OperationType, SweepPoint, TestStatus } from '@/lib/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { operation, levels = DEFAULT_SWEEP_LEVELS } = req.body || {};
+  const validOperations = ['read', 'write', 'update', 'scan', 'delete'];
+
+  if (!operation || !validOperations.includes(operation)) {
+    return res.status(400).json({ error: 'Invalid operation. Must be: read, write, update, scan, or delete' });
+  }
+
+  if (
+    !Array.isArray(levels) ||
+    levels.length === 0 ||
+    levels.some((level) => !Number.isInteger(level) || level < 1 || level > 10_000)
+  ) {
+    return res.status(400).json({ error: 'levels must be a non-empty array of integers between 1 and 10000' });
+  }
+
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/sweep');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
+  // Set headers for streaming response
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
+
+  try {
+    const allPoints: SweepPoint[] = [];
+    const totalRuns = databaseTypes.length * levels.length;
+
+    for (const db of databaseTypes) {
+      const dbDisplayName = createAdapter(db).displayName;
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: operation as OperationType,
+        status: 'running',
+        progress: Math.round((allPoints.length / totalRuns) * 100),
+        message: `${dbDisplayName} için eşzamanlılık taraması başlatılıyor (${levels.join(', ')})...`,
+      });
+
+      await runSweep(db, operation as OperationType, config, levels, (point) => {
+        allPoints.push(point);
+        sendStatus({
+          currentDatabase: dbDisplayName,
+          currentOperation: operation as OperationType,
+          status: point.error ? 'error' : 'running',
+          progress: Math.round((allPoints.length / totalRuns) * 100),
+          message: point.error
+            ? `${dbDisplayName} eşzamanlılık ${point.concurrency} başarısız: ${point.error}`
+            : `${dbDisplayName} eşzamanlılık ${point.concurrency}: ${point.opsPerSec.toLocaleString()} işlem/sn, p99: ${point.latency?.p99}ms`,
+        });
+      });
+    }
+
+    const runId = await recordRun('sweep', config, databaseTypes, { sweepPoints: allPoints });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results: allPoints })}\n\n`);
+    res.end();
+  } catch (error: any) {
+    res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
+    res.end();
+  } finally {
+    release();
+  }
+}
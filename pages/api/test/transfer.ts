@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runTransferWorkload } from '@/lib/transfer';
+import { createAdapter, databaseTypes } from '@/lib/adapters';
+import { recordRun } from '@/lib/history';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { TestStatus, TransferResult } from '@/lib/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/transfer');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
+  // Set headers for streaming response
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
+
+  try {
+    const allResults: TransferResult[] = [];
+
+    for (let i = 0; i < databaseTypes.length; i++) {
+      const dbDisplayName = createAdapter(databaseTypes[i]).displayName;
+      const progress = Math.round(((i + 1) / databaseTypes.length) * 100);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: 'transfer',
+        status: 'running',
+        progress,
+        message: `${dbDisplayName} için ${config.accountCount.toLocaleString()} hesap arasında ${config.operationCount.toLocaleString()} transfer çalıştırılıyor...`,
+        recordCount: config.operationCount,
+      });
+
+      const result = await runTransferWorkload(databaseTypes[i], config);
+      allResults.push(result);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: 'transfer',
+        status: result.error || result.invariantViolations > 0 ? 'error' : 'completed',
+        progress,
+        message: result.unsupported
+          ? `${dbDisplayName} transfer iş yükünü desteklemiyor: ${result.unsupported}`
+          : result.error
+            ? `${dbDisplayName} için transfer iş yükü başarısız: ${result.error}`
+            : `${dbDisplayName} için transfer tamamlandı. ${result.opsPerSec.toLocaleString()} işlem/sn, `
+              + `${result.aborted} iptal, ${result.retries} yeniden deneme, ${result.invariantViolations} değişmez ihlali`,
+      });
+    }
+
+    const runId = await recordRun('transfer', config, databaseTypes, { transferResults: allResults });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results: allResults })}\n\n`);
+    res.end();
+  } catch (error: any) {
+    res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
+    res.end();
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { runWorkloadMix, YCSB_WORKLOADS } from '@/lib/ycsb';
+import { createAdapter, databaseTypes } from '@/lib/adapters';
+import { recordRun } from '@/lib/history';
+import { parseWorkloadConfig } from '@/lib/workloadConfig';
+import { acquireRunLock, getActiveRun } from '@/lib/jobs';
+import { TestStatus, WorkloadMixResult, YcsbWorkload } from '@/lib/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const mix = req.body?.mix as YcsbWorkload;
+  if (!mix || !YCSB_WORKLOADS[mix]) {
+    return res.status(400).json({ error: `Invalid mix. Must be one of: ${Object.keys(YCSB_WORKLOADS).join(', ')}` });
+  }
+
+  const { config, errors } = parseWorkloadConfig(req.body?.workload);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: `Invalid workload: ${errors.join('; ')}` });
+  }
+
+  const release = acquireRunLock('/api/test/ycsb');
+  if (!release) {
+    return res.status(409).json({ error: `${getActiveRun()} is already running` });
+  }
+
+  // Set headers for streaming response
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const sendStatus = (status: TestStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+  };
+
+  try {
+    const allResults: WorkloadMixResult[] = [];
+
+    for (let i = 0; i < databaseTypes.length; i++) {
+      const dbDisplayName = createAdapter(databaseTypes[i]).displayName;
+      const progress = Math.round(((i + 1) / databaseTypes.length) * 100);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: `ycsb-${mix}`,
+        status: 'running',
+        progress,
+        message: `${dbDisplayName} için YCSB ${mix} iş yükü (${YCSB_WORKLOADS[mix].description}) çalıştırılıyor...`,
+        recordCount: config.operationCount,
+      });
+
+      const result = await runWorkloadMix(databaseTypes[i], mix, config);
+      allResults.push(result);
+
+      sendStatus({
+        currentDatabase: dbDisplayName,
+        currentOperation: `ycsb-${mix}`,
+        status: result.error ? 'error' : 'completed',
+        progress,
+        message: result.error
+          ? `${dbDisplayName} için YCSB ${mix} iş yükü başarısız: ${result.error}`
+          : `${dbDisplayName} için YCSB ${mix} tamamlandı. ${result.opsPerSec.toLocaleString()} işlem/sn, p99: ${result.latency.p99}ms`,
+      });
+    }
+
+    const runId = await recordRun('ycsb', config, databaseTypes, { mixResults: allResults });
+    res.write(`data: ${JSON.stringify({ type: 'complete', runId, results: allResults })}\n\n`);
+    res.end();
+  } catch (error: any) {
+    res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
+    res.end();
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import type { RunComparison, RunSummary } from '@/lib/types';
+import RunComparisonTable from '@/components/RunComparisonTable';
+
+const cardStyle = {
+  marginBottom: '1.5rem',
+  padding: '1.5rem',
+  backgroundColor: 'white',
+  borderRadius: '12px',
+  boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+};
+
+const inputStyle = { padding: '0.5rem', borderRadius: '8px', border: '1px solid #dee2e6', fontSize: '0.85rem' };
+
+const kindLabels: { [key: string]: string } = {
+  single: 'tekil',
+  all: 'tüm testler',
+  repeat: 'tekrarlı',
+  scenario: 'senaryo',
+  ycsb: 'YCSB',
+  sweep: 'eşzamanlılık taraması',
+  transfer: 'transfer',
+  contention: 'çekişme',
+};
+
+const runLabel = (run: RunSummary) =>
+  `${new Date(run.timestamp).toLocaleString('tr-TR')} · ${kindLabels[run.kind] ?? run.kind}`
+  + (run.scenario ? ` ${run.scenario}` : '')
+  + ` · ${run.resultCount} sonuç`
+  + (run.gitCommit ? ` · ${run.gitCommit.slice(0, 7)}` : '');
+
+const engineVersions = (run: RunSummary) =>
+  run.engines.map((engine) => `${engine.database} ${engine.version ?? 'erişilemedi'}`).join(', ');
+
+export default function Compare() {
+  const router = useRouter();
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [base, setBase] = useState('');
+  const [head, setHead] = useState('');
+  const [threshold, setThreshold] = useState(10);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const historyLoaded = useRef(false);
+
+  const compare = useCallback(async (baseId: string, headId: string, thresholdPercent: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ base: baseId, head: headId, threshold: String(thresholdPercent) });
+      const response = await fetch(`/api/runs/compare?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setComparison(data);
+      router.replace({ pathname: '/compare', query: { base: baseId, head: headId } }, undefined, { shallow: true });
+    } catch (error: any) {
+      setError(error.message);
+      setComparison(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  // Load the history once; ?base=&head= preselects (and compares) two runs, otherwise the latest two
+  // (compare changes with the router after each shallow replace, so the ref keeps this to a single load)
+  useEffect(() => {
+    if (!router.isReady || historyLoaded.current) return;
+    historyLoaded.current = true;
+
+    const loadRuns = async () => {
+      try {
+        const response = await fetch('/api/runs');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error);
+        }
+        setRuns(data.runs);
+
+        const queryBase = typeof router.query.base === 'string' ? router.query.base : '';
+        const queryHead = typeof router.query.head === 'string' ? router.query.head : '';
+        setBase(queryBase || data.runs[1]?.id || '');
+        setHead(queryHead || data.runs[0]?.id || '');
+        if (queryBase && queryHead) {
+          compare(queryBase, queryHead, threshold);
+        }
+      } catch (error: any) {
+        setError(error.message);
+      }
+    };
+    loadRuns();
+  }, [router.isReady, router.query.base, router.query.head, compare, threshold]);
+
+  const canCompare = !loading && base !== '' && head !== '';
+
+  return (
+    <div style={{
+      padding: '1.5rem',
+      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+      backgroundColor: '#f5f7fa',
+      minHeight: '100vh',
+    }}>
+      <div style={{ maxWidth: '1400px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{ ...cardStyle, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h1 style={{
+            margin: 0,
+            color: '#1a1a1a',
+            fontSize: '1.75rem',
+            fontWeight: '700',
+            background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            WebkitBackgroundClip: 'text',
+            WebkitTextFillColor: 'transparent',
+          }}>
+            Çalıştırma Karşılaştırması
+          </h1>
+          <Link href="/" style={{ color: '#667eea', fontSize: '0.9rem', fontWeight: '600' }}>
+            ← Testlere dön
+          </Link>
+        </div>
+
+        {/* Run selection */}
+        <div style={cardStyle}>
+          <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center', fontSize: '0.85rem', color: '#495057' }}>
+            <label>
+              Temel{' '}
+              <select value={base} onChange={(e) => setBase(e.target.value)} style={inputStyle}>
+                <option value="">Seçin</option>
+                {runs.map((run) => (
+                  <option key={run.id} value={run.id}>{runLabel(run)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Yeni{' '}
+              <select value={head} onChange={(e) => setHead(e.target.value)} style={inputStyle}>
+                <option value="">Seçin</option>
+                {runs.map((run) => (
+                  <option key={run.id} value={run.id}>{runLabel(run)}</option>
+                ))}
+              </select>
+            </label>
+            <label title="Bu yüzdeyi aşan değişimler, güven aralığı olmasa da işaretlenir">
+              Eşik (%){' '}
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={threshold}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+                style={{ ...inputStyle, width: '5rem' }}
+              />
+            </label>
+            <button
+              onClick={() => compare(base, head, threshold)}
+              disabled={!canCompare}
+              style={{
+                padding: '0.625rem 1.25rem',
+                backgroundColor: canCompare ? '#667eea' : '#ccc',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: canCompare ? 'pointer' : 'not-allowed',
+                fontSize: '0.9rem',
+                fontWeight: '600',
+              }}
+            >
+              {loading ? 'Karşılaştırılıyor...' : 'Karşılaştır'}
+            </button>
+            {runs.length === 0 && !error && <span style={{ color: '#6c757d' }}>Henüz kayıtlı çalıştırma yok.</span>}
+            {error && <span style={{ color: '#dc3545' }}>{error}</span>}
+          </div>
+        </div>
+
+        {comparison && (
+          <div style={cardStyle}>
+            <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', marginBottom: '1rem', fontSize: '0.85rem' }}>
+              <strong style={{ color: comparison.regressions > 0 ? '#dc3545' : '#28a745' }}>
+                {comparison.regressions} gerileme
+              </strong>
+              <strong style={{ color: '#28a745' }}>{comparison.improvements} iyileşme</strong>
+              <span style={{ color: '#6c757d' }}>Eşik: %{comparison.threshold} veya %95 güven aralığı</span>
+            </div>
+
+            <div style={{ fontSize: '0.8rem', color: '#495057', marginBottom: '1rem', lineHeight: 1.6 }}>
+              <div><strong>Temel:</strong> {runLabel(comparison.base)} — {engineVersions(comparison.base)}</div>
+              <div><strong>Yeni:</strong> {runLabel(comparison.head)} — {engineVersions(comparison.head)}</div>
+              {comparison.configChanges.length > 0 && (
+                <div>
+                  <strong>Yapılandırma farkları:</strong>{' '}
+                  {comparison.configChanges.map((change) => (
+                    <span key={change.field} style={{ fontFamily: 'monospace', marginRight: '0.75rem' }}>
+                      {change.field}: {change.base} → {change.head}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <RunComparisonTable rows={comparison.rows} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,33 @@
-import { useState, useEffect, useRef } from 'react';
-import type { TestResult, TestStatus, RepeatTestResult } from '@/lib/types';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import type {
+  ContentionResult,
+  InjectionMatrix,
+  JobKind,
+  JobSummary,
+  OperationType,
+  TestResult,
+  TestStatus,
+  RepeatTestResult,
+  SweepPoint,
+  WorkloadConfig,
+  TransferResult,
+  WorkloadMixResult,
+  YcsbWorkload,
+} from '@/lib/types';
+import { readEventStream } from '@/lib/eventStream';
+import { DEFAULT_WORKLOAD_CONFIG } from '@/lib/workloadConfig';
 import PerformanceChart from '@/components/PerformanceChart';
 import RepeatTestChart from '@/components/RepeatTestChart';
+import RepeatStatsTable from '@/components/RepeatStatsTable';
 import StatusModal from '@/components/StatusModal';
+import WorkloadSettings from '@/components/WorkloadSettings';
+import WorkloadMixTable from '@/components/WorkloadMixTable';
+import SweepChart from '@/components/SweepChart';
+import DataResetPanel from '@/components/DataResetPanel';
+import TransferTable from '@/components/TransferTable';
+import ContentionTable from '@/components/ContentionTable';
+import InjectionMatrixTable from '@/components/InjectionMatrixTable';
 
 export default function Home() {
   const [results, setResults] = useState<TestResult[]>([]);
@@ -10,12 +35,28 @@ export default function Home() {
   const [loading, setLoading] = useState<{ [key: string]: boolean }>({});
   const [runningAllTests, setRunningAllTests] = useState(false);
   const [runningRepeatTests, setRunningRepeatTests] = useState(false);
+  const [runningMixTests, setRunningMixTests] = useState(false);
+  const [mixResults, setMixResults] = useState<WorkloadMixResult[]>([]);
+  const [selectedMix, setSelectedMix] = useState<YcsbWorkload>('A');
+  const [runningSweep, setRunningSweep] = useState(false);
+  const [sweepPoints, setSweepPoints] = useState<SweepPoint[]>([]);
+  const [sweepOperation, setSweepOperation] = useState<OperationType>('read');
+  const [sweepLevels, setSweepLevels] = useState('1, 8, 64, 256');
+  const [runningTransfer, setRunningTransfer] = useState(false);
+  const [transferResults, setTransferResults] = useState<TransferResult[]>([]);
+  const [runningContention, setRunningContention] = useState(false);
+  const [contentionResults, setContentionResults] = useState<ContentionResult[]>([]);
+  const [runningPentest, setRunningPentest] = useState(false);
+  const [injectionMatrix, setInjectionMatrix] = useState<InjectionMatrix | null>(null);
   const [testStatus, setTestStatus] = useState<TestStatus | null>(null);
+  const [workload, setWorkload] = useState<WorkloadConfig>(DEFAULT_WORKLOAD_CONFIG);
+  const [chartMetric, setChartMetric] = useState<'timeTaken' | 'latency'>('timeTaken');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
 
   const runTest = async (database: string, operation: string) => {
     // Prevent running tests if all tests or repeat tests are running
-    if (runningAllTests || runningRepeatTests) {
+    if (runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest) {
       alert('Lütfen tüm testler tamamlanana kadar bekleyin.');
       return;
     }
@@ -29,10 +70,13 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ operation }),
+        body: JSON.stringify({ operation, workload }),
       });
 
-      const result: TestResult = await response.json();
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error);
+      }
       setResults((prev) => [...prev, result]);
     } catch (error: any) {
       console.error('Test error:', error);
@@ -40,7 +84,7 @@ export default function Home() {
         ...prev,
         {
           database,
-          operation: operation as 'read' | 'write' | 'update',
+          operation: operation as OperationType,
           timeTaken: 0,
           recordCount: 0,
           dataIntegrity: false,
@@ -55,154 +99,339 @@ export default function Home() {
   const clearResults = () => {
     setResults([]);
     setRepeatResults([]);
+    setMixResults([]);
+    setSweepPoints([]);
+    setTransferResults([]);
+    setContentionResults([]);
+    setInjectionMatrix(null);
   };
 
-  const runRepeatTests = async () => {
-    setRunningRepeatTests(true);
+  const runMixTests = async () => {
+    setRunningMixTests(true);
     setTestStatus(null);
-    setRepeatResults([]);
+    setMixResults([]);
 
     try {
-      const response = await fetch('/api/test/repeat', {
+      const response = await fetch('/api/test/ycsb', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ mix: selectedMix, workload }),
       });
 
-      if (!response.body) {
-        throw new Error('Response body is null');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === 'complete') {
-                setRepeatResults(data.results);
-                setTimeout(() => {
-                  setTestStatus(null);
-                }, 2000);
-                setRunningRepeatTests(false);
-                break;
-              } else if (data.type === 'error') {
-                alert('Hata: ' + data.error);
-                setRunningRepeatTests(false);
-                setTestStatus(null);
-                break;
-              } else {
-                // Status update
-                setTestStatus({
-                  currentDatabase: data.database,
-                  currentOperation: data.operation,
-                  status: data.type === 'start' ? 'starting' :
-                    data.type === 'running' ? 'running' :
-                      data.type === 'completed' ? 'completed' : 'running',
-                  progress: data.progress || 0,
-                  message: data.message,
-                  iteration: data.iteration,
-                  total: data.total,
-                });
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+      await readEventStream(response, (data) => {
+        if (data.type === 'complete') {
+          setMixResults(data.results);
+          setTimeout(() => {
+            setTestStatus(null);
+          }, 2000);
+        } else if (data.type === 'error') {
+          alert('Hata: ' + data.error);
+          setTestStatus(null);
+        } else {
+          setTestStatus(data);
         }
-      }
+      });
     } catch (error: any) {
-      console.error('Repeat tests error:', error);
-      alert('Tekrarlı testler çalıştırılırken hata oluştu: ' + error.message);
-      setRunningRepeatTests(false);
+      console.error('YCSB tests error:', error);
+      alert('YCSB iş yükü çalıştırılırken hata oluştu: ' + error.message);
       setTestStatus(null);
+    } finally {
+      setRunningMixTests(false);
     }
   };
 
-  const runAllTests = async () => {
-    setRunningAllTests(true);
+  const runTransferTests = async () => {
+    setRunningTransfer(true);
     setTestStatus(null);
-    setResults([]);
+    setTransferResults([]);
 
-    // Close existing connection if any
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
+    try {
+      const response = await fetch('/api/test/transfer', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workload }),
+      });
+
+      await readEventStream(response, (data) => {
+        if (data.type === 'complete') {
+          setTransferResults(data.results);
+          setTimeout(() => {
+            setTestStatus(null);
+          }, 2000);
+        } else if (data.type === 'error') {
+          alert('Hata: ' + data.error);
+          setTestStatus(null);
+        } else {
+          setTestStatus(data);
+        }
+      });
+    } catch (error: any) {
+      console.error('Transfer tests error:', error);
+      alert('Transfer iş yükü çalıştırılırken hata oluştu: ' + error.message);
+      setTestStatus(null);
+    } finally {
+      setRunningTransfer(false);
     }
+  };
+
+  const runContentionTests = async () => {
+    setRunningContention(true);
+    setTestStatus(null);
+    setContentionResults([]);
 
     try {
-      // Use Server-Sent Events for real-time status updates
-      const eventSource = new EventSource('/api/test/all-stream', {
-        // Note: EventSource doesn't support POST, so we'll use a workaround
+      const response = await fetch('/api/test/contention', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workload }),
+      });
+
+      await readEventStream(response, (data) => {
+        if (data.type === 'complete') {
+          setContentionResults(data.results);
+          setTimeout(() => {
+            setTestStatus(null);
+          }, 2000);
+        } else if (data.type === 'error') {
+          alert('Hata: ' + data.error);
+          setTestStatus(null);
+        } else {
+          setTestStatus(data);
+        }
       });
+    } catch (error: any) {
+      console.error('Contention tests error:', error);
+      alert('Çekişme testi çalıştırılırken hata oluştu: ' + error.message);
+      setTestStatus(null);
+    } finally {
+      setRunningContention(false);
+    }
+  };
+
+  const runPentest = async () => {
+    setRunningPentest(true);
+    setInjectionMatrix(null);
+
+    try {
+      const response = await fetch('/api/pentest', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setInjectionMatrix(data);
+    } catch (error: any) {
+      console.error('Pentest error:', error);
+      alert('Güvenlik testi çalıştırılırken hata oluştu: ' + error.message);
+    } finally {
+      setRunningPentest(false);
+    }
+  };
+
+  const runSweep = async () => {
+    const levels = sweepLevels.split(',').map((level) => parseInt(level.trim(), 10)).filter((level) => level > 0);
+    if (levels.length === 0) {
+      alert('Lütfen en az bir eşzamanlılık seviyesi girin.');
+      return;
+    }
 
-      // For POST request with SSE, we need to use fetch with streaming
-      const response = await fetch('/api/test/all-stream', {
+    setRunningSweep(true);
+    setTestStatus(null);
+    setSweepPoints([]);
+
+    try {
+      const response = await fetch('/api/test/sweep', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ operation: sweepOperation, levels, workload }),
       });
 
-      if (!response.body) {
-        throw new Error('Response body is null');
-      }
+      await readEventStream(response, (data) => {
+        if (data.type === 'complete') {
+          setSweepPoints(data.results);
+          setTimeout(() => {
+            setTestStatus(null);
+          }, 2000);
+        } else if (data.type === 'error') {
+          alert('Hata: ' + data.error);
+          setTestStatus(null);
+        } else {
+          setTestStatus(data);
+        }
+      });
+    } catch (error: any) {
+      console.error('Sweep error:', error);
+      alert('Eşzamanlılık taraması çalıştırılırken hata oluştu: ' + error.message);
+      setTestStatus(null);
+    } finally {
+      setRunningSweep(false);
+    }
+  };
+
+  const setJobRunning = useCallback((kind: JobKind, running: boolean) => {
+    if (kind === 'repeat') {
+      setRunningRepeatTests(running);
+    } else {
+      setRunningAllTests(running);
+    }
+  }, []);
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === 'complete') {
-                setResults(data.results);
-                // Keep status visible for 2 seconds before closing
-                setTimeout(() => {
-                  setTestStatus(null);
-                }, 2000);
-                setRunningAllTests(false);
-                break;
-              } else if (data.type === 'error') {
-                alert('Hata: ' + data.error);
-                setRunningAllTests(false);
-                setTestStatus(null);
-                break;
-              } else {
-                // It's a status update
-                setTestStatus(data);
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+  // Follow a background job's events; EventSource reconnects with Last-Event-ID on its own
+  const followJob = useCallback((id: string, kind: JobKind) => {
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close();
+    }
+    setActiveJobId(id);
+    setJobRunning(kind, true);
+
+    const eventSource = new EventSource(`/api/jobs/${id}/events`);
+    eventSourceRef.current = eventSource;
+
+    const finish = () => {
+      eventSource.close();
+      eventSourceRef.current = null;
+      setActiveJobId(null);
+      setJobRunning(kind, false);
+    };
+
+    eventSource.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+
+      if (data.type === 'complete') {
+        if (kind === 'repeat') {
+          setRepeatResults(data.repeatResults);
+        } else {
+          setResults(data.results);
         }
+        // Keep status visible for 2 seconds before closing
+        setTimeout(() => {
+          setTestStatus(null);
+        }, 2000);
+        finish();
+      } else if (data.type === 'error') {
+        alert('Hata: ' + data.error);
+        setTestStatus(null);
+        finish();
+      } else if (data.type === 'cancelled') {
+        setTestStatus(null);
+        finish();
+      } else {
+        // It's a status update
+        setTestStatus(data);
+      }
+    };
+
+    // A dropped connection reconnects on its own; CLOSED means the server refused the stream,
+    // e.g. the job is gone after a server restart, so no final event will ever arrive
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED) {
+        alert('Hata: İşin olay akışı kapandı; iş sunucuda artık bulunmuyor olabilir.');
+        setTestStatus(null);
+        finish();
+      }
+    };
+  }, [setJobRunning]);
+
+  const startJob = async (kind: JobKind) => {
+    setTestStatus(null);
+    if (kind === 'repeat') {
+      setRepeatResults([]);
+    } else {
+      setResults([]);
+    }
+
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: kind, workload }),
+      });
+      const job = await response.json();
+      if (!response.ok) {
+        throw new Error(job.error);
       }
+      followJob(job.id, kind);
     } catch (error: any) {
-      console.error('All tests error:', error);
-      alert('Tüm testler çalıştırılırken hata oluştu: ' + error.message);
-      setRunningAllTests(false);
-      setTestStatus(null);
+      console.error('Job error:', error);
+      alert((kind === 'repeat' ? 'Tekrarlı testler' : 'Tüm testler') + ' başlatılırken hata oluştu: ' + error.message);
+    }
+  };
+
+  const runRepeatTests = () => startJob('repeat');
+
+  const runAllTests = () => startJob('all');
+
+  const cancelJob = async () => {
+    if (!activeJobId) return;
+    try {
+      const response = await fetch(`/api/jobs/${activeJobId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+      setTestStatus((prev) => prev && { ...prev, message: 'İptal ediliyor; süren işlem grubu bitince durdurulacak...' });
+    } catch (error: any) {
+      alert('Test iptal edilemedi: ' + error.message);
     }
   };
 
+  // Reattach to a job that is still running, e.g. after a page reload
+  useEffect(() => {
+    const resumeRunningJob = async () => {
+      try {
+        const response = await fetch('/api/jobs');
+        const jobs: JobSummary[] = await response.json();
+        const running = response.ok && jobs.find((job) => job.state === 'running' && job.kind !== 'scenario');
+        if (running) {
+          followJob(running.id, running.kind);
+        }
+      } catch (error) {
+        console.error('Job list error:', error);
+      }
+    };
+    resumeRunningJob();
+  }, [followJob]);
+
+  // Restore the latest stored run so results survive a page reload
+  useEffect(() => {
+    const loadLatestRun = async () => {
+      try {
+        const listResponse = await fetch('/api/runs?limit=1');
+        const { runs } = await listResponse.json();
+        if (!listResponse.ok || runs.length === 0) return;
+
+        const runResponse = await fetch(`/api/runs/${runs[0].id}`);
+        const run = await runResponse.json();
+        if (!runResponse.ok) return;
+        // Repeat runs also store every iteration; only their summaries belong in the repeat chart
+        if (run.kind === 'repeat') {
+          setRepeatResults((prev) => (prev.length > 0 ? prev : run.repeatResults));
+        } else if (run.kind === 'ycsb') {
+          setMixResults((prev) => (prev.length > 0 ? prev : run.mixResults));
+        } else if (run.kind === 'sweep') {
+          setSweepPoints((prev) => (prev.length > 0 ? prev : run.sweepPoints));
+        } else if (run.kind === 'transfer') {
+          setTransferResults((prev) => (prev.length > 0 ? prev : run.transferResults));
+        } else if (run.kind === 'contention') {
+          setContentionResults((prev) => (prev.length > 0 ? prev : run.contentionResults));
+        } else {
+          setResults((prev) => (prev.length > 0 ? prev : run.results));
+        }
+      } catch (error) {
+        console.error('Run history error:', error);
+      }
+    };
+    loadLatestRun();
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -218,18 +447,31 @@ export default function Home() {
     { name: 'cockroach', displayName: 'CockroachDB' },
   ];
 
-  const operations = ['write', 'read', 'update'];
+  const operations = ['write', 'read', 'update', 'scan', 'delete'];
+
+  const ycsbWorkloadLabels: { [key: string]: string } = {
+    A: 'A - %50 okuma / %50 güncelleme',
+    B: 'B - %95 okuma / %5 güncelleme',
+    C: 'C - %100 okuma',
+    D: 'D - en son kayıtları okuma',
+    E: 'E - kısa aralık taramaları',
+    F: 'F - oku-değiştir-yaz',
+  };
 
   const operationLabels: { [key: string]: string } = {
     write: 'Yazma',
     read: 'Okuma',
     update: 'Güncelleme',
+    scan: 'Tarama',
+    delete: 'Silme',
   };
 
   const statusLabels: { [key: string]: string } = {
     write: 'Yazma',
     read: 'Okuma',
     update: 'Güncelleme',
+    scan: 'Tarama',
+    delete: 'Silme',
   };
 
   const closeModal = () => {
@@ -244,7 +486,7 @@ export default function Home() {
       minHeight: '100vh',
     }}>
       {/* Status Modal */}
-      <StatusModal status={testStatus} onClose={closeModal} />
+      <StatusModal status={testStatus} onClose={closeModal} onCancel={activeJobId ? cancelJob : undefined} />
 
       <div style={{ maxWidth: '1400px', margin: '0 auto' }}>
         {/* Header */}
@@ -254,6 +496,9 @@ export default function Home() {
           backgroundColor: 'white',
           borderRadius: '12px',
           boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
         }}>
           <h1 style={{
             margin: 0,
@@ -266,6 +511,9 @@ export default function Home() {
           }}>
             NoSQL vs NewSQL Veritabanı Performans Karşılaştırması
           </h1>
+          <Link href="/compare" style={{ color: '#667eea', fontSize: '0.9rem', fontWeight: '600' }}>
+            Çalıştırmaları karşılaştır →
+          </Link>
         </div>
 
         {/* Controls Section */}
@@ -281,21 +529,21 @@ export default function Home() {
             <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
               <button
                 onClick={runAllTests}
-                disabled={runningAllTests || runningRepeatTests}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
                 style={{
                   padding: '0.625rem 1.25rem',
-                  backgroundColor: runningAllTests || runningRepeatTests ? '#ccc' : '#28a745',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#28a745',
                   color: 'white',
                   border: 'none',
                   borderRadius: '8px',
-                  cursor: runningAllTests || runningRepeatTests ? 'not-allowed' : 'pointer',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
                   fontSize: '0.9rem',
                   fontWeight: '600',
                   transition: 'all 0.2s',
-                  boxShadow: runningAllTests || runningRepeatTests ? 'none' : '0 2px 4px rgba(40, 167, 69, 0.3)',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(40, 167, 69, 0.3)',
                 }}
                 onMouseOver={(e) => {
-                  if (!runningAllTests && !runningRepeatTests) e.currentTarget.style.transform = 'translateY(-1px)';
+                  if (!runningAllTests && !runningRepeatTests && !runningMixTests && !runningSweep && !runningTransfer && !runningContention && !runningPentest) e.currentTarget.style.transform = 'translateY(-1px)';
                 }}
                 onMouseOut={(e) => {
                   e.currentTarget.style.transform = 'translateY(0)';
@@ -305,21 +553,21 @@ export default function Home() {
               </button>
               <button
                 onClick={runRepeatTests}
-                disabled={runningAllTests || runningRepeatTests}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
                 style={{
                   padding: '0.625rem 1.25rem',
-                  backgroundColor: runningAllTests || runningRepeatTests ? '#ccc' : '#6f42c1',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#6f42c1',
                   color: 'white',
                   border: 'none',
                   borderRadius: '8px',
-                  cursor: runningAllTests || runningRepeatTests ? 'not-allowed' : 'pointer',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
                   fontSize: '0.9rem',
                   fontWeight: '600',
                   transition: 'all 0.2s',
-                  boxShadow: runningAllTests || runningRepeatTests ? 'none' : '0 2px 4px rgba(111, 66, 193, 0.3)',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(111, 66, 193, 0.3)',
                 }}
                 onMouseOver={(e) => {
-                  if (!runningAllTests && !runningRepeatTests) e.currentTarget.style.transform = 'translateY(-1px)';
+                  if (!runningAllTests && !runningRepeatTests && !runningMixTests && !runningSweep && !runningTransfer && !runningContention && !runningPentest) e.currentTarget.style.transform = 'translateY(-1px)';
                 }}
                 onMouseOut={(e) => {
                   e.currentTarget.style.transform = 'translateY(0)';
@@ -327,23 +575,105 @@ export default function Home() {
               >
                 {runningRepeatTests ? 'Çalışıyor...' : 'Tekrarlı Test (10x)'}
               </button>
+              <select
+                value={selectedMix}
+                onChange={(e) => setSelectedMix(e.target.value as YcsbWorkload)}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{ padding: '0.5rem', borderRadius: '8px', border: '1px solid #dee2e6', fontSize: '0.85rem' }}
+              >
+                {Object.entries(ycsbWorkloadLabels).map(([mix, label]) => (
+                  <option key={mix} value={mix}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={runMixTests}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{
+                  padding: '0.625rem 1.25rem',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#fd7e14',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
+                  fontSize: '0.9rem',
+                  fontWeight: '600',
+                  transition: 'all 0.2s',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(253, 126, 20, 0.3)',
+                }}
+              >
+                {runningMixTests ? 'Çalışıyor...' : 'YCSB İş Yükü'}
+              </button>
+              <button
+                onClick={runTransferTests}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{
+                  padding: '0.625rem 1.25rem',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#20c997',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
+                  fontSize: '0.9rem',
+                  fontWeight: '600',
+                  transition: 'all 0.2s',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(32, 201, 151, 0.3)',
+                }}
+              >
+                {runningTransfer ? 'Çalışıyor...' : 'Transfer İşlemleri'}
+              </button>
+              <button
+                onClick={runContentionTests}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{
+                  padding: '0.625rem 1.25rem',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#e83e8c',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
+                  fontSize: '0.9rem',
+                  fontWeight: '600',
+                  transition: 'all 0.2s',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(232, 62, 140, 0.3)',
+                }}
+              >
+                {runningContention ? 'Çalışıyor...' : 'Çekişme Testi'}
+              </button>
+              <button
+                onClick={runPentest}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{
+                  padding: '0.625rem 1.25rem',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#343a40',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
+                  fontSize: '0.9rem',
+                  fontWeight: '600',
+                  transition: 'all 0.2s',
+                  boxShadow: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'none' : '0 2px 4px rgba(52, 58, 64, 0.3)',
+                }}
+              >
+                {runningPentest ? 'Çalışıyor...' : 'Güvenlik Testi'}
+              </button>
               <button
                 onClick={clearResults}
-                disabled={results.length === 0 && repeatResults.length === 0}
+                disabled={results.length === 0 && repeatResults.length === 0 && mixResults.length === 0 && sweepPoints.length === 0 && transferResults.length === 0 && contentionResults.length === 0 && !injectionMatrix}
                 style={{
                   padding: '0.625rem 1.25rem',
-                  backgroundColor: results.length === 0 && repeatResults.length === 0 ? '#e9ecef' : '#dc3545',
-                  color: results.length === 0 && repeatResults.length === 0 ? '#6c757d' : 'white',
+                  backgroundColor: results.length === 0 && repeatResults.length === 0 && mixResults.length === 0 && sweepPoints.length === 0 && transferResults.length === 0 && contentionResults.length === 0 && !injectionMatrix ? '#e9ecef' : '#dc3545',
+                  color: results.length === 0 && repeatResults.length === 0 && mixResults.length === 0 && sweepPoints.length === 0 && transferResults.length === 0 && contentionResults.length === 0 && !injectionMatrix ? '#6c757d' : 'white',
                   border: 'none',
                   borderRadius: '8px',
-                  cursor: results.length === 0 && repeatResults.length === 0 ? 'not-allowed' : 'pointer',
+                  cursor: results.length === 0 && repeatResults.length === 0 && mixResults.length === 0 && sweepPoints.length === 0 && transferResults.length === 0 && contentionResults.length === 0 && !injectionMatrix ? 'not-allowed' : 'pointer',
                   fontSize: '0.9rem',
                   fontWeight: '600',
                   transition: 'all 0.2s',
-                  boxShadow: results.length === 0 && repeatResults.length === 0 ? 'none' : '0 2px 4px rgba(220, 53, 69, 0.3)',
+                  boxShadow: results.length === 0 && repeatResults.length === 0 && mixResults.length === 0 && sweepPoints.length === 0 && transferResults.length === 0 && contentionResults.length === 0 && !injectionMatrix ? 'none' : '0 2px 4px rgba(220, 53, 69, 0.3)',
                 }}
                 onMouseOver={(e) => {
-                  if (results.length > 0 || repeatResults.length > 0) e.currentTarget.style.transform = 'translateY(-1px)';
+                  if (results.length > 0 || repeatResults.length > 0 || mixResults.length > 0 || sweepPoints.length > 0 || transferResults.length > 0 || contentionResults.length > 0 || injectionMatrix) e.currentTarget.style.transform = 'translateY(-1px)';
                 }}
                 onMouseOut={(e) => {
                   e.currentTarget.style.transform = 'translateY(0)';
@@ -354,6 +684,10 @@ export default function Home() {
             </div>
           </div>
 
+          <WorkloadSettings value={workload} onChange={setWorkload} disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest} />
+
+          <DataResetPanel disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest} />
+
           <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem' }}>
             {databases.map((db) => (
               <div key={db.name} style={{
@@ -381,11 +715,11 @@ export default function Home() {
                       <button
                         key={op}
                         onClick={() => runTest(db.name, op)}
-                        disabled={isLoading || runningAllTests || runningRepeatTests}
+                        disabled={isLoading || runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
                         style={{
                           padding: '0.5rem 0.75rem',
-                          backgroundColor: isLoading || runningAllTests || runningRepeatTests ? '#e9ecef' : '#007bff',
-                          color: isLoading || runningAllTests || runningRepeatTests ? '#6c757d' : 'white',
+                          backgroundColor: isLoading || runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#e9ecef' : '#007bff',
+                          color: isLoading || runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#6c757d' : 'white',
                           border: 'none',
                           borderRadius: '6px',
                           cursor: isLoading || runningAllTests ? 'not-allowed' : 'pointer',
@@ -394,13 +728,13 @@ export default function Home() {
                           transition: 'all 0.2s',
                         }}
                         onMouseOver={(e) => {
-                          if (!isLoading && !runningAllTests && !runningRepeatTests) {
+                          if (!isLoading && !runningAllTests && !runningRepeatTests && !runningMixTests && !runningSweep && !runningTransfer && !runningContention && !runningPentest) {
                             e.currentTarget.style.backgroundColor = '#0056b3';
                             e.currentTarget.style.transform = 'translateY(-1px)';
                           }
                         }}
                         onMouseOut={(e) => {
-                          e.currentTarget.style.backgroundColor = isLoading || runningAllTests || runningRepeatTests ? '#e9ecef' : '#007bff';
+                          e.currentTarget.style.backgroundColor = isLoading || runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#e9ecef' : '#007bff';
                           e.currentTarget.style.transform = 'translateY(0)';
                         }}
                       >
@@ -414,6 +748,121 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Concurrency Sweep */}
+        <div style={{
+          marginBottom: '1.5rem',
+          padding: '1rem',
+          backgroundColor: 'white',
+          borderRadius: '12px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap', marginBottom: sweepPoints.length > 0 ? '1rem' : 0 }}>
+            <h2 style={{ margin: 0, color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+              Eşzamanlılık Taraması
+            </h2>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+              <select
+                value={sweepOperation}
+                onChange={(e) => setSweepOperation(e.target.value as OperationType)}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{ padding: '0.5rem', borderRadius: '8px', border: '1px solid #dee2e6', fontSize: '0.85rem' }}
+              >
+                {operations.map((op) => (
+                  <option key={op} value={op}>{operationLabels[op]}</option>
+                ))}
+              </select>
+              <input
+                value={sweepLevels}
+                onChange={(e) => setSweepLevels(e.target.value)}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                title="Virgülle ayrılmış eşzamanlılık seviyeleri"
+                style={{ padding: '0.5rem', borderRadius: '8px', border: '1px solid #dee2e6', fontSize: '0.85rem', width: '140px' }}
+              />
+              <button
+                onClick={runSweep}
+                disabled={runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? '#ccc' : '#17a2b8',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: runningAllTests || runningRepeatTests || runningMixTests || runningSweep || runningTransfer || runningContention || runningPentest ? 'not-allowed' : 'pointer',
+                  fontSize: '0.85rem',
+                  fontWeight: '600',
+                }}
+              >
+                {runningSweep ? 'Çalışıyor...' : 'Taramayı Başlat'}
+              </button>
+            </div>
+          </div>
+          {sweepPoints.length > 0 && <SweepChart points={sweepPoints} />}
+        </div>
+
+        {/* YCSB Workload Results */}
+        {mixResults.length > 0 && (
+          <div style={{
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+          }}>
+            <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+              YCSB İş Yükü Sonuçları
+            </h2>
+            <WorkloadMixTable results={mixResults} />
+          </div>
+        )}
+
+        {/* Transfer Workload Results */}
+        {transferResults.length > 0 && (
+          <div style={{
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+          }}>
+            <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+              Transfer İş Yükü Sonuçları
+            </h2>
+            <TransferTable results={transferResults} />
+          </div>
+        )}
+
+        {/* Contention Test Results */}
+        {contentionResults.length > 0 && (
+          <div style={{
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+          }}>
+            <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+              Çekişme Testi Sonuçları
+            </h2>
+            <ContentionTable results={contentionResults} />
+          </div>
+        )}
+
+        {/* Injection Lab Results */}
+        {injectionMatrix && (
+          <div style={{
+            marginBottom: '1.5rem',
+            padding: '1rem',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+          }}>
+            <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+              Injection Laboratuvarı (Yük × Motor)
+            </h2>
+            <InjectionMatrixTable matrix={injectionMatrix} />
+          </div>
+        )}
+
         {/* Repeat Test Results */}
         {repeatResults.length > 0 && (
           <div style={{
@@ -424,8 +873,11 @@ export default function Home() {
             boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
           }}>
             <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
-              Tekrarlı Test Sonuçları (10 İterasyon)
+              Tekrarlı Test Sonuçları ({Math.max(...repeatResults.map((r) => r.times.length))} İterasyon)
             </h2>
+            <div style={{ marginBottom: '1rem' }}>
+              <RepeatStatsTable results={repeatResults} />
+            </div>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
               <div style={{ height: '200px' }}>
                 <RepeatTestChart results={repeatResults} operation="write" />
@@ -436,6 +888,12 @@ export default function Home() {
               <div style={{ height: '200px' }}>
                 <RepeatTestChart results={repeatResults} operation="update" />
               </div>
+              <div style={{ height: '200px' }}>
+                <RepeatTestChart results={repeatResults} operation="scan" />
+              </div>
+              <div style={{ height: '200px' }}>
+                <RepeatTestChart results={repeatResults} operation="delete" />
+              </div>
             </div>
           </div>
         )}
@@ -450,18 +908,34 @@ export default function Home() {
               borderRadius: '12px',
               boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
             }}>
-              <h2 style={{ marginTop: 0, marginBottom: '1rem', color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
-                Performans Grafikleri
-              </h2>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+                <h2 style={{ margin: 0, color: '#1a1a1a', fontSize: '1.1rem', fontWeight: '600' }}>
+                  Performans Grafikleri
+                </h2>
+                <select
+                  value={chartMetric}
+                  onChange={(e) => setChartMetric(e.target.value as 'timeTaken' | 'latency')}
+                  style={{ padding: '0.25rem 0.5rem', borderRadius: '6px', border: '1px solid #dee2e6', fontSize: '0.8rem' }}
+                >
+                  <option value="timeTaken">Toplam Süre</option>
+                  <option value="latency">Gecikme Yüzdelikleri</option>
+                </select>
+              </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
                 <div style={{ height: '200px' }}>
-                  <PerformanceChart results={results} operation="write" />
+                  <PerformanceChart results={results} operation="write" metric={chartMetric} />
+                </div>
+                <div style={{ height: '200px' }}>
+                  <PerformanceChart results={results} operation="read" metric={chartMetric} />
                 </div>
                 <div style={{ height: '200px' }}>
-                  <PerformanceChart results={results} operation="read" />
+                  <PerformanceChart results={results} operation="update" metric={chartMetric} />
                 </div>
                 <div style={{ height: '200px' }}>
-                  <PerformanceChart results={results} operation="update" />
+                  <PerformanceChart results={results} operation="scan" metric={chartMetric} />
+                </div>
+                <div style={{ height: '200px' }}>
+                  <PerformanceChart results={results} operation="delete" metric={chartMetric} />
                 </div>
               </div>
             </div>
@@ -510,6 +984,12 @@ export default function Home() {
                       <th style={{ padding: '0.625rem', textAlign: 'left', fontWeight: '600', color: '#495057', fontSize: '0.8rem' }}>
                         Süre (ms)
                       </th>
+                      <th style={{ padding: '0.625rem', textAlign: 'left', fontWeight: '600', color: '#495057', fontSize: '0.8rem' }}>
+                        p50 / p99 (ms)
+                      </th>
+                      <th style={{ padding: '0.625rem', textAlign: 'left', fontWeight: '600', color: '#495057', fontSize: '0.8rem' }}>
+                        İşlem/sn
+                      </th>
                       <th style={{ padding: '0.625rem', textAlign: 'left', fontWeight: '600', color: '#495057', fontSize: '0.8rem' }}>
                         Kayıt
                       </th>
@@ -534,12 +1014,51 @@ export default function Home() {
                           e.currentTarget.style.backgroundColor = 'transparent';
                         }}
                       >
-                        <td style={{ padding: '0.625rem', color: '#212529' }}>{result.database}</td>
+                        <td style={{ padding: '0.625rem', color: '#212529' }}>
+                          {result.database}
+                          {result.consistency && (
+                            <div style={{ fontSize: '0.7rem', color: '#6f42c1', fontFamily: 'monospace' }}>{result.consistency}</div>
+                          )}
+                          {result.pool && Object.keys(result.pool).length > 0 && (
+                            <div style={{ fontSize: '0.7rem', color: '#6c757d', fontFamily: 'monospace' }}>
+                              {Object.entries(result.pool).map(([setting, size]) => `${setting}=${size}`).join(', ')}
+                            </div>
+                          )}
+                        </td>
                         <td style={{ padding: '0.625rem', color: '#495057' }}>
                           {operationLabels[result.operation] || result.operation}
+                          {result.writeStrategy && (
+                            <div style={{ fontSize: '0.7rem', color: '#6c757d', fontFamily: 'monospace' }}>{result.writeStrategy}</div>
+                          )}
                         </td>
                         <td style={{ padding: '0.625rem', color: '#495057', fontFamily: 'monospace' }}>
                           {result.timeTaken.toLocaleString()}
+                          {(result.setupTime !== undefined || result.warmup) && (
+                            <div
+                              style={{ fontSize: '0.7rem', color: '#6c757d' }}
+                              title={result.warmup ? `Isınma: ${result.warmup.operations} işlem, ${result.warmup.steadyState ? 'kararlı duruma ulaşıldı' : 'kararlı duruma ulaşılmadı'}` : undefined}
+                            >
+                              {result.setupTime !== undefined && `bağlantı ${result.setupTime.toLocaleString()}`}
+                              {result.warmup && `, ısınma ${result.warmup.timeTaken.toLocaleString()}`}
+                            </div>
+                          )}
+                        </td>
+                        <td
+                          style={{ padding: '0.625rem', color: '#495057', fontFamily: 'monospace' }}
+                          title={result.latency ? `p95: ${result.latency.p95}ms, p99.9: ${result.latency.p999}ms, ortalama: ${result.latency.mean}ms, σ: ${result.latency.stddev}ms` : undefined}
+                        >
+                          {result.latency ? `${result.latency.p50} / ${result.latency.p99}` : '-'}
+                        </td>
+                        <td style={{ padding: '0.625rem', color: '#495057', fontFamily: 'monospace' }}>
+                          {result.opsPerSec !== undefined ? result.opsPerSec.toLocaleString() : '-'}
+                          {result.openLoop && (
+                            <div
+                              style={{ fontSize: '0.7rem', color: result.openLoop.missed > 0 || result.openLoop.late > 0 ? '#dc3545' : '#6c757d' }}
+                              title={`Planlanan: ${result.openLoop.scheduled}, tamamlanan: ${result.openLoop.completed}, hata: ${result.openLoop.errors}`}
+                            >
+                              hedef {result.openLoop.targetOpsPerSec.toLocaleString()}, geciken {result.openLoop.late}, kaçırılan {result.openLoop.missed}
+                            </div>
+                          )}
                         </td>
                         <td style={{ padding: '0.625rem', color: '#495057' }}>
                           {result.recordCount.toLocaleString()}
@@ -554,6 +1073,14 @@ export default function Home() {
                           >
                             {result.dataIntegrity ? 'Başarılı' : 'Başarısız'}
                           </span>
+                          {result.integrity && (
+                            <div
+                              style={{ fontSize: '0.75rem', color: '#6c757d', marginTop: '0.25rem' }}
+                              title={result.integrity.digest ? `Özet: ${result.integrity.digest}\nBeklenen: ${result.integrity.expectedDigest}` : undefined}
+                            >
+                              {result.integrity.checked.toLocaleString()} satır: {result.integrity.missing} eksik, {result.integrity.extra} fazla, {result.integrity.mismatched} uyumsuz
+                            </div>
+                          )}
                         </td>
                         <td style={{ padding: '0.625rem' }}>
                           {result.error ? (
@@ -0,0 +1,179 @@
+/**
+ * Headless benchmark runner: runs a scenario file without the web UI.
+ *
+ *   npm run bench -- scenarios/smoke.json [--json results.json] [--csv results.csv] [--quiet]
+ *
+ * Exit codes: 0 when every run succeeded and met its SLOs, 1 on run errors or SLO breaches, 2 on usage or scenario errors.
+ */
+import './env';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { closeAllConnections } from '../lib/dbConnectors';
+import { loadScenarioFile } from '../lib/scenario';
+import { runScenario } from '../lib/scenarioRunner';
+import { LatencyStats, ScenarioResult } from '../lib/types';
+
+const USAGE = 'Usage: npm run bench -- <scenario file> [--json <path>] [--csv <path>] [--quiet]';
+
+/**
+ * One printed/exported row, covering both single-operation and YCSB mix results
+ */
+interface ReportRow {
+  database: string;
+  operation: string;
+  iteration: number;
+  timeTaken: number;
+  recordCount: number;
+  opsPerSec?: number;
+  latency?: LatencyStats;
+  dataIntegrity: boolean;
+  error?: string;
+}
+
+const CSV_COLUMNS = ['database', 'operation', 'iteration', 'timeTaken', 'recordCount', 'opsPerSec', 'p50', 'p95', 'p99', 'dataIntegrity', 'error'];
+
+function toReportRows(result: ScenarioResult): ReportRow[] {
+  const iterations = new Map<string, number>();
+  const nextIteration = (database: string, operation: string) => {
+    const key = `${database}\u0000${operation}`;
+    const iteration = (iterations.get(key) ?? 0) + 1;
+    iterations.set(key, iteration);
+    return iteration;
+  };
+
+  return [
+    ...result.results.map((row) => ({ ...row, iteration: nextIteration(row.database, row.operation) })),
+    ...result.mixResults.map((row) => ({
+      database: row.database,
+      operation: `ycsb-${row.workload}`,
+      iteration: nextIteration(row.database, `ycsb-${row.workload}`),
+      timeTaken: row.timeTaken,
+      recordCount: row.operationCount,
+      opsPerSec: row.opsPerSec,
+      latency: row.latency,
+      dataIntegrity: row.dataIntegrity,
+      error: row.error,
+    })),
+  ];
+}
+
+function printTable(rows: ReportRow[]): void {
+  const header = ['Database', 'Operation', 'Iter', 'Time (ms)', 'Ops/s', 'p50', 'p95', 'p99', 'Integrity', 'Error'];
+  const lines = rows.map((row) => [
+    row.database,
+    row.operation,
+    String(row.iteration),
+    String(row.timeTaken),
+    row.opsPerSec !== undefined ? String(row.opsPerSec) : '-',
+    row.latency ? String(row.latency.p50) : '-',
+    row.latency ? String(row.latency.p95) : '-',
+    row.latency ? String(row.latency.p99) : '-',
+    row.dataIntegrity ? 'ok' : 'FAIL',
+    row.error ?? '',
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...lines.map((line) => line[i].length)));
+  const format = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(format(header));
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+  lines.forEach((line) => console.log(format(line)));
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: ReportRow[]): string {
+  const lines = rows.map((row) =>
+    [
+      row.database,
+      row.operation,
+      row.iteration,
+      row.timeTaken,
+      row.recordCount,
+      row.opsPerSec,
+      row.latency?.p50,
+      row.latency?.p95,
+      row.latency?.p99,
+      row.dataIntegrity,
+      row.error,
+    ].map(csvCell).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+async function main(): Promise<number> {
+  let values: { json?: string; csv?: string; quiet?: boolean };
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'string' },
+        csv: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+      },
+    }));
+  } catch (error: any) {
+    console.error(`${error.message}\n${USAGE}`);
+    return 2;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let scenario;
+  try {
+    scenario = await loadScenarioFile(positionals[0]);
+  } catch (error: any) {
+    console.error(error.message);
+    return 2;
+  }
+
+  // Progress goes to stderr so stdout carries only the report
+  const result = await runScenario(scenario, {
+    onStatus: (status) => {
+      if (!values.quiet) {
+        console.error(`[${String(status.progress).padStart(3)}%] ${status.message}`);
+      }
+    },
+  });
+
+  const rows = toReportRows(result);
+  console.log(`\nScenario: ${result.scenario}${result.runId ? ` (run ${result.runId})` : ''}\n`);
+  printTable(rows);
+
+  if (values.json) {
+    await fs.writeFile(values.json, JSON.stringify(result, null, 2) + '\n');
+    console.log(`\nJSON written to ${values.json}`);
+  }
+  if (values.csv) {
+    await fs.writeFile(values.csv, toCsv(rows));
+    console.log(`CSV written to ${values.csv}`);
+  }
+
+  const failed = rows.filter((row) => row.error);
+  if (result.sloViolations.length > 0) {
+    console.log(`\nSLO breaches (${result.sloViolations.length}):`);
+    for (const violation of result.sloViolations) {
+      console.log(`  ${violation.database} ${violation.operation} #${violation.iteration}: ${violation.metric} limit ${violation.limit}, actual ${violation.actual}`);
+    }
+  }
+  if (failed.length > 0) {
+    console.log(`\n${failed.length} run(s) failed`);
+  }
+
+  return failed.length > 0 || result.sloViolations.length > 0 ? 1 : 0;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    return 1;
+  })
+  .then(async (exitCode) => {
+    await closeAllConnections().catch(() => undefined);
+    process.exit(exitCode);
+  });
@@ -0,0 +1,6 @@
+import dotenv from 'dotenv';
+
+// Load the same environment files the Next.js server reads. Imported first by CLI entry points,
+// because the connectors read process.env when their module is loaded.
+dotenv.config({ path: '.env.local' });
+dotenv.config();